@@ -0,0 +1,61 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  ChipFamily,
+  CHIP_TARGETS,
+  chipFromChipId,
+  chipFromMagicValue,
+  getChipTarget,
+} from "./chip-targets";
+
+describe("chip targets", () => {
+  it("should define a target for every known chip family", () => {
+    const families = Object.values(ChipFamily).filter(
+      (v) => typeof v === "number" && v !== ChipFamily.UNKNOWN,
+    );
+    expect(Object.keys(CHIP_TARGETS)).toHaveLength(families.length);
+    for (const family of families) {
+      expect(getChipTarget(family as ChipFamily).magicValues).toContain(family);
+    }
+  });
+
+  it("should throw for an unknown chip", () => {
+    expect(() => getChipTarget(ChipFamily.UNKNOWN)).toThrow(
+      "No target definition for chip: UNKNOWN",
+    );
+  });
+
+  it("should map magic values, including revision aliases", () => {
+    expect(chipFromMagicValue(0x00f01d83)).toBe(ChipFamily.ESP32);
+    expect(chipFromMagicValue(0x1b31506f)).toBe(ChipFamily.ESP32C3);
+    expect(chipFromMagicValue(0xdeadbeef)).toBe(ChipFamily.UNKNOWN);
+  });
+
+  it("should map chip IDs", () => {
+    expect(chipFromChipId(0)).toBe(ChipFamily.ESP32);
+    expect(chipFromChipId(13)).toBe(ChipFamily.ESP32C6);
+    expect(chipFromChipId(23)).toBe(ChipFamily.ESP32C5);
+    expect(chipFromChipId(99)).toBe(ChipFamily.UNKNOWN);
+  });
+
+  it("should use the chip's bootloader offset", () => {
+    expect(getChipTarget(ChipFamily.ESP32).bootloaderOffset).toBe(0x1000);
+    expect(getChipTarget(ChipFamily.ESP32S3).bootloaderOffset).toBe(0x0);
+    expect(getChipTarget(ChipFamily.ESP32P4).bootloaderOffset).toBe(0x2000);
+  });
+});
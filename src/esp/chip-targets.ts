@@ -0,0 +1,357 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  DEFAULT_SPI_FLASH_PARAMS,
+  SpiFlashParams,
+} from "./command.spi-set-params";
+
+/**
+ * Known chip families and their magic values.
+ */
+export enum ChipFamily {
+  ESP32 = 0x00f01d83,
+  ESP32S2 = 0x000007c6,
+  ESP32S3 = 0x9,
+  ESP32C2 = 0x6f51306f,
+  ESP32C3 = 0x6921506f,
+  ESP32C5 = 0x1101406f,
+  ESP32C6 = 0x2ce0806f,
+  ESP32C61 = 0x33f0206f,
+  ESP32H2 = 0xca02c06f,
+  ESP32P4 = 0x0addbad0,
+  ESP8266 = 0xfff0c101,
+  UNKNOWN = 0xffffffff,
+}
+
+/**
+ * An address range, end exclusive.
+ */
+export interface MemoryRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Addresses of the SPI flash controller registers used to run raw flash
+ * commands. Offsets are relative to `base`.
+ */
+export interface SpiRegisters {
+  base: number;
+  usr: number;
+  usr1: number;
+  usr2: number;
+  w0: number;
+  /** Data length registers. The ESP8266 encodes the lengths in USR1 instead. */
+  mosiDlen?: number;
+  misoDlen?: number;
+}
+
+const SPI_REGISTERS_ESP32S2_STYLE = {
+  usr: 0x18,
+  usr1: 0x1c,
+  usr2: 0x20,
+  w0: 0x58,
+  mosiDlen: 0x24,
+  misoDlen: 0x28,
+};
+
+/**
+ * Properties of a chip family that the loader protocol and images depend on.
+ */
+export interface ChipTarget {
+  /** Human readable chip name. */
+  name: string;
+  /** All values the chip-detect magic register reads on this family. */
+  magicValues: number[];
+  /**
+   * Chip ID reported by GET_SECURITY_INFO and stored in app image headers.
+   * Undefined for the ESP8266, whose images have no chip ID.
+   */
+  chipId?: number;
+  /** Flash offset the ROM loads the second stage bootloader from. */
+  bootloaderOffset: number;
+  /**
+   * The ROM loader takes a fifth "encrypted" word in FLASH_BEGIN and
+   * FLASH_DEFL_BEGIN. True for the ESP32-S2 and later chips.
+   */
+  supportsEncryptedFlash: boolean;
+  /** Instruction RAM. */
+  iram: MemoryRange;
+  /** Data RAM. */
+  dram: MemoryRange;
+  /**
+   * Address ranges the cache maps onto flash (IROM and DROM). Image segments
+   * loaded here are read from flash instead of being copied to RAM.
+   */
+  flashMappings: MemoryRange[];
+  /** Base address of the eFuse read registers. */
+  efuseBase: number;
+  /** Registers holding the factory MAC address, lowest word first. */
+  macRegisters: number[];
+  /** Image header flash frequency values, keyed by frequency name. */
+  flashFrequencies: Record<string, number>;
+  /** SPI_SET_PARAMS values used until the flash size is known. */
+  spiDefaults: SpiFlashParams;
+  /** SPI flash controller registers. */
+  spiRegisters: SpiRegisters;
+}
+
+/**
+ * Target definitions for every supported chip family.
+ */
+export const CHIP_TARGETS: Record<
+  Exclude<ChipFamily, ChipFamily.UNKNOWN>,
+  ChipTarget
+> = {
+  [ChipFamily.ESP32]: {
+    name: "ESP32",
+    magicValues: [0x00f01d83],
+    chipId: 0,
+    bootloaderOffset: 0x1000,
+    supportsEncryptedFlash: false,
+    iram: { start: 0x40080000, end: 0x400a0000 },
+    dram: { start: 0x3ffae000, end: 0x40000000 },
+    flashMappings: [
+      { start: 0x400d0000, end: 0x40400000 },
+      { start: 0x3f400000, end: 0x3f800000 },
+    ],
+    efuseBase: 0x3ff5a000,
+    macRegisters: [0x3ff5a004, 0x3ff5a008],
+    flashFrequencies: { "80m": 0xf, "40m": 0x0, "26m": 0x1, "20m": 0x2 },
+    spiDefaults: DEFAULT_SPI_FLASH_PARAMS,
+    spiRegisters: {
+      base: 0x3ff42000,
+      usr: 0x1c,
+      usr1: 0x20,
+      usr2: 0x24,
+      w0: 0x80,
+      mosiDlen: 0x28,
+      misoDlen: 0x2c,
+    },
+  },
+  [ChipFamily.ESP32S2]: {
+    name: "ESP32-S2",
+    magicValues: [0x000007c6],
+    chipId: 2,
+    bootloaderOffset: 0x1000,
+    supportsEncryptedFlash: true,
+    iram: { start: 0x40020000, end: 0x40070000 },
+    dram: { start: 0x3ffb0000, end: 0x40000000 },
+    flashMappings: [
+      { start: 0x40080000, end: 0x40b80000 },
+      { start: 0x3f000000, end: 0x3f3f0000 },
+    ],
+    efuseBase: 0x3f41a000,
+    macRegisters: [0x3f41a044, 0x3f41a048],
+    flashFrequencies: { "80m": 0xf, "40m": 0x0, "26m": 0x1, "20m": 0x2 },
+    spiDefaults: DEFAULT_SPI_FLASH_PARAMS,
+    spiRegisters: { base: 0x3f402000, ...SPI_REGISTERS_ESP32S2_STYLE },
+  },
+  [ChipFamily.ESP32S3]: {
+    name: "ESP32-S3",
+    magicValues: [0x9],
+    chipId: 9,
+    bootloaderOffset: 0x0,
+    supportsEncryptedFlash: true,
+    iram: { start: 0x40370000, end: 0x403e0000 },
+    dram: { start: 0x3fc88000, end: 0x3fd00000 },
+    flashMappings: [
+      { start: 0x42000000, end: 0x44000000 },
+      { start: 0x3c000000, end: 0x3e000000 },
+    ],
+    efuseBase: 0x60007000,
+    macRegisters: [0x60007044, 0x60007048],
+    flashFrequencies: { "80m": 0xf, "40m": 0x0, "20m": 0x2 },
+    spiDefaults: DEFAULT_SPI_FLASH_PARAMS,
+    spiRegisters: { base: 0x60002000, ...SPI_REGISTERS_ESP32S2_STYLE },
+  },
+  [ChipFamily.ESP32C2]: {
+    name: "ESP32-C2",
+    magicValues: [0x6f51306f, 0x7c41a06f],
+    chipId: 12,
+    bootloaderOffset: 0x0,
+    supportsEncryptedFlash: true,
+    iram: { start: 0x4037c000, end: 0x403c0000 },
+    dram: { start: 0x3fca0000, end: 0x3fce0000 },
+    flashMappings: [
+      { start: 0x42000000, end: 0x42400000 },
+      { start: 0x3c000000, end: 0x3c400000 },
+    ],
+    efuseBase: 0x60008800,
+    macRegisters: [0x60008840, 0x60008844],
+    flashFrequencies: { "60m": 0xf, "30m": 0x0, "20m": 0x1, "15m": 0x2 },
+    spiDefaults: DEFAULT_SPI_FLASH_PARAMS,
+    spiRegisters: { base: 0x60002000, ...SPI_REGISTERS_ESP32S2_STYLE },
+  },
+  [ChipFamily.ESP32C3]: {
+    name: "ESP32-C3",
+    magicValues: [0x6921506f, 0x1b31506f, 0x4881606f, 0x4361606f],
+    chipId: 5,
+    bootloaderOffset: 0x0,
+    supportsEncryptedFlash: true,
+    iram: { start: 0x4037c000, end: 0x403e0000 },
+    dram: { start: 0x3fc80000, end: 0x3fce0000 },
+    flashMappings: [
+      { start: 0x42000000, end: 0x42800000 },
+      { start: 0x3c000000, end: 0x3c800000 },
+    ],
+    efuseBase: 0x60008800,
+    macRegisters: [0x60008844, 0x60008848],
+    flashFrequencies: { "80m": 0xf, "40m": 0x0, "20m": 0x2 },
+    spiDefaults: DEFAULT_SPI_FLASH_PARAMS,
+    spiRegisters: { base: 0x60002000, ...SPI_REGISTERS_ESP32S2_STYLE },
+  },
+  [ChipFamily.ESP32C5]: {
+    name: "ESP32-C5",
+    magicValues: [0x1101406f, 0x63e1406f, 0x5fd1406f],
+    chipId: 23,
+    bootloaderOffset: 0x2000,
+    supportsEncryptedFlash: true,
+    iram: { start: 0x40800000, end: 0x40860000 },
+    dram: { start: 0x40800000, end: 0x40860000 },
+    flashMappings: [{ start: 0x42000000, end: 0x44000000 }],
+    efuseBase: 0x600b4800,
+    macRegisters: [0x600b4844, 0x600b4848],
+    flashFrequencies: { "80m": 0xf, "40m": 0x0, "20m": 0x2 },
+    spiDefaults: DEFAULT_SPI_FLASH_PARAMS,
+    spiRegisters: { base: 0x60003000, ...SPI_REGISTERS_ESP32S2_STYLE },
+  },
+  [ChipFamily.ESP32C6]: {
+    name: "ESP32-C6",
+    magicValues: [0x2ce0806f],
+    chipId: 13,
+    bootloaderOffset: 0x0,
+    supportsEncryptedFlash: true,
+    iram: { start: 0x40800000, end: 0x40880000 },
+    dram: { start: 0x40800000, end: 0x40880000 },
+    flashMappings: [
+      { start: 0x42000000, end: 0x42800000 },
+      { start: 0x42800000, end: 0x43000000 },
+    ],
+    efuseBase: 0x600b0800,
+    macRegisters: [0x600b0844, 0x600b0848],
+    flashFrequencies: { "80m": 0x0, "40m": 0x0, "20m": 0x2 },
+    spiDefaults: DEFAULT_SPI_FLASH_PARAMS,
+    spiRegisters: { base: 0x60003000, ...SPI_REGISTERS_ESP32S2_STYLE },
+  },
+  [ChipFamily.ESP32C61]: {
+    name: "ESP32-C61",
+    magicValues: [0x33f0206f, 0x2421606f],
+    chipId: 20,
+    bootloaderOffset: 0x0,
+    supportsEncryptedFlash: true,
+    iram: { start: 0x40800000, end: 0x40850000 },
+    dram: { start: 0x40800000, end: 0x40850000 },
+    flashMappings: [{ start: 0x42000000, end: 0x44000000 }],
+    efuseBase: 0x600b4800,
+    macRegisters: [0x600b4844, 0x600b4848],
+    flashFrequencies: { "80m": 0xf, "40m": 0x0, "20m": 0x2 },
+    spiDefaults: DEFAULT_SPI_FLASH_PARAMS,
+    spiRegisters: { base: 0x60003000, ...SPI_REGISTERS_ESP32S2_STYLE },
+  },
+  [ChipFamily.ESP32H2]: {
+    name: "ESP32-H2",
+    magicValues: [0xca02c06f, 0xd7b73e80],
+    chipId: 16,
+    bootloaderOffset: 0x0,
+    supportsEncryptedFlash: true,
+    iram: { start: 0x40800000, end: 0x40850000 },
+    dram: { start: 0x40800000, end: 0x40850000 },
+    flashMappings: [
+      { start: 0x42000000, end: 0x42800000 },
+      { start: 0x42800000, end: 0x43000000 },
+    ],
+    efuseBase: 0x600b0800,
+    macRegisters: [0x600b0844, 0x600b0848],
+    flashFrequencies: { "48m": 0xf, "24m": 0x0, "16m": 0x1, "12m": 0x2 },
+    spiDefaults: DEFAULT_SPI_FLASH_PARAMS,
+    spiRegisters: { base: 0x60003000, ...SPI_REGISTERS_ESP32S2_STYLE },
+  },
+  [ChipFamily.ESP32P4]: {
+    name: "ESP32-P4",
+    magicValues: [0x0addbad0],
+    chipId: 18,
+    bootloaderOffset: 0x2000,
+    supportsEncryptedFlash: true,
+    iram: { start: 0x4ff00000, end: 0x4ffa0000 },
+    dram: { start: 0x4ff00000, end: 0x4ffa0000 },
+    flashMappings: [{ start: 0x40000000, end: 0x4c000000 }],
+    efuseBase: 0x5012d000,
+    macRegisters: [0x5012d044, 0x5012d048],
+    flashFrequencies: { "80m": 0xf, "40m": 0x0, "20m": 0x2 },
+    spiDefaults: DEFAULT_SPI_FLASH_PARAMS,
+    spiRegisters: { base: 0x5008d000, ...SPI_REGISTERS_ESP32S2_STYLE },
+  },
+  [ChipFamily.ESP8266]: {
+    name: "ESP8266",
+    magicValues: [0xfff0c101],
+    bootloaderOffset: 0x0,
+    supportsEncryptedFlash: false,
+    iram: { start: 0x40100000, end: 0x40108000 },
+    dram: { start: 0x3ffe8000, end: 0x40000000 },
+    flashMappings: [{ start: 0x40200000, end: 0x40300000 }],
+    efuseBase: 0x3ff00050,
+    macRegisters: [0x3ff00050, 0x3ff00054, 0x3ff0005c],
+    flashFrequencies: { "80m": 0xf, "40m": 0x0, "26m": 0x1, "20m": 0x2 },
+    spiDefaults: DEFAULT_SPI_FLASH_PARAMS,
+    spiRegisters: {
+      base: 0x60000200,
+      usr: 0x1c,
+      usr1: 0x20,
+      usr2: 0x24,
+      w0: 0x40,
+    },
+  },
+};
+
+/**
+ * Looks up the target definition for a chip family.
+ * @param chip The chip family.
+ * @throws Error if the chip family is unknown.
+ */
+export function getChipTarget(chip: ChipFamily): ChipTarget {
+  const target = CHIP_TARGETS[chip as keyof typeof CHIP_TARGETS];
+  if (!target) {
+    throw new Error(`No target definition for chip: ${ChipFamily[chip]}`);
+  }
+  return target;
+}
+
+/**
+ * Finds the chip family that reports a magic value.
+ * @param magicValue Value of the chip-detect magic register.
+ * @returns The chip family, or UNKNOWN.
+ */
+export function chipFromMagicValue(magicValue: number): ChipFamily {
+  return findChip((target) => target.magicValues.includes(magicValue));
+}
+
+/**
+ * Finds the chip family with an image / security info chip ID.
+ * @param chipId The chip ID.
+ * @returns The chip family, or UNKNOWN.
+ */
+export function chipFromChipId(chipId: number): ChipFamily {
+  return findChip((target) => target.chipId === chipId);
+}
+
+function findChip(predicate: (target: ChipTarget) => boolean): ChipFamily {
+  const entry = Object.entries(CHIP_TARGETS).find(([, target]) =>
+    predicate(target),
+  );
+  return entry ? (Number(entry[0]) as ChipFamily) : ChipFamily.UNKNOWN;
+}
@@ -0,0 +1,139 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { bench, describe } from "vitest";
+import { EspCommandFlashData } from "./command.flash-data";
+import { SlipStreamTransformer } from "./stream-transformers";
+import { SlipStreamBytes, slipEncode } from "../utils/common";
+
+// Flashing a 4 MB image in 4 KB blocks, as flashPartitionUncompressed does.
+const IMAGE_SIZE = 4 * 1024 * 1024;
+const BLOCK_SIZE = 0x1000;
+const image = new Uint8Array(IMAGE_SIZE);
+for (let i = 0; i < image.length; i++) {
+  // Plenty of END and ESC bytes, so the escaping paths are exercised.
+  image[i] = (i * 31) & 0xff;
+}
+const blockCount = IMAGE_SIZE / BLOCK_SIZE;
+const encodedBlocks = Array.from({ length: blockCount }, (_, i) =>
+  new EspCommandFlashData(
+    image,
+    i,
+    BLOCK_SIZE,
+  ).getSlipStreamEncodedPacketData(),
+);
+
+// The spread- and number[]-based versions these replaced, as a baseline.
+function legacyPacketData(header: Uint8Array, data: Uint8Array): Uint8Array {
+  return new Uint8Array([...header, ...data]);
+}
+
+function legacySlipEncode(buffer: Uint8Array): Uint8Array {
+  const encoded = [SlipStreamBytes.END];
+  for (const byte of buffer) {
+    if (byte === SlipStreamBytes.END) {
+      encoded.push(SlipStreamBytes.ESC, SlipStreamBytes.ESC_END);
+    } else if (byte === SlipStreamBytes.ESC) {
+      encoded.push(SlipStreamBytes.ESC, SlipStreamBytes.ESC_ESC);
+    } else {
+      encoded.push(byte);
+    }
+  }
+  encoded.push(SlipStreamBytes.END);
+  return new Uint8Array(encoded);
+}
+
+function legacySlipDecode(chunks: Uint8Array[]): Uint8Array[] {
+  const frames: Uint8Array[] = [];
+  let frame: number[] = [];
+  let escape = false;
+  for (const chunk of chunks) {
+    for (const byte of chunk) {
+      if (escape) {
+        frame.push(
+          byte === SlipStreamBytes.ESC_END
+            ? SlipStreamBytes.END
+            : byte === SlipStreamBytes.ESC_ESC
+              ? SlipStreamBytes.ESC
+              : byte,
+        );
+        escape = false;
+      } else if (byte === SlipStreamBytes.ESC) {
+        escape = true;
+      } else if (byte === SlipStreamBytes.END) {
+        if (frame.length > 0) {
+          frames.push(new Uint8Array(frame));
+        }
+        frame = [];
+      } else {
+        frame.push(byte);
+      }
+    }
+  }
+  return frames;
+}
+
+function decode(chunks: Uint8Array[]): Uint8Array[] {
+  const frames: Uint8Array[] = [];
+  const transformer = new SlipStreamTransformer("decoding");
+  const controller = {
+    enqueue: (frame: Uint8Array) => frames.push(frame),
+  } as unknown as TransformStreamDefaultController<Uint8Array>;
+  for (const chunk of chunks) {
+    transformer.transform(chunk, controller);
+  }
+  return frames;
+}
+
+describe("encode a 4 MB image as FLASH_DATA frames", () => {
+  bench("preallocated", () => {
+    for (let i = 0; i < blockCount; i++) {
+      new EspCommandFlashData(
+        image,
+        i,
+        BLOCK_SIZE,
+      ).getSlipStreamEncodedPacketData();
+    }
+  });
+
+  bench("spread and number[] (previous)", () => {
+    for (let i = 0; i < blockCount; i++) {
+      const packet = new EspCommandFlashData(image, i, BLOCK_SIZE);
+      const header = packet.getPacketData().subarray(0, 8);
+      legacySlipEncode(legacyPacketData(header, packet.data));
+    }
+  });
+});
+
+describe("SLIP encode a 4 MB buffer in one frame", () => {
+  bench("preallocated", () => {
+    slipEncode(image);
+  });
+
+  bench("number[] (previous)", () => {
+    legacySlipEncode(image);
+  });
+});
+
+describe("SLIP decode 4 MB of FLASH_DATA frames", () => {
+  bench("reused frame buffer", () => {
+    decode(encodedBlocks);
+  });
+
+  bench("number[] (previous)", () => {
+    legacySlipDecode(encodedBlocks);
+  });
+});
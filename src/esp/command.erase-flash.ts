@@ -0,0 +1,30 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { EspCommand, EspCommandPacket, EspPacketDirection } from "./command";
+
+/**
+ * Erases the entire flash chip. Only supported by the flasher stub.
+ */
+export class EspCommandEraseFlash extends EspCommandPacket {
+  constructor() {
+    super();
+    this.direction = EspPacketDirection.REQUEST;
+    this.command = EspCommand.ERASE_FLASH;
+    this.checksum = 0; // Not used for this command
+    this.data = new Uint8Array(0);
+  }
+}
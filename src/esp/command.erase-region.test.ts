@@ -0,0 +1,36 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect } from "vitest";
+import { EspCommandEraseRegion } from "./command.erase-region";
+import { EspCommand, EspPacketDirection } from "./command";
+
+describe("EspCommandEraseRegion", () => {
+  it("should set the command identifier and packet direction", () => {
+    const command = new EspCommandEraseRegion(0x10000, 0x2000);
+    expect(command.command).toBe(EspCommand.ERASE_REGION);
+    expect(command.direction).toBe(EspPacketDirection.REQUEST);
+    expect(command.checksum).toBe(0);
+  });
+
+  it("should encode the offset and size as little-endian words", () => {
+    const command = new EspCommandEraseRegion(0x10000, 0x2000);
+    expect(command.size).toBe(8);
+    expect(command.data).toEqual(
+      new Uint8Array([0x00, 0x00, 0x01, 0x00, 0x00, 0x20, 0x00, 0x00]),
+    );
+  });
+});
@@ -142,4 +142,29 @@ describe("EspCommandFlashBegin", () => {
     expect(customDataView.getUint32(8, true)).toBe(customPacketSize);
     expect(customDataView.getUint32(12, true)).toBe(customOffset);
   });
+
+  it("should append the encrypted word for ESP32-S2 and later ROMs", () => {
+    // These ROMs expect a fifth word that selects encrypted writes.
+    const plain = new EspCommandFlashBegin(
+      mockImage,
+      mockOffset,
+      mockPacketSize,
+      mockNumPackets,
+      false,
+    );
+    const encrypted = new EspCommandFlashBegin(
+      mockImage,
+      mockOffset,
+      mockPacketSize,
+      mockNumPackets,
+      true,
+    );
+
+    expect(plain.size).toBe(20);
+    const plainView = new DataView(plain.getPacketData().buffer, 8);
+    expect(plainView.getUint32(12, true)).toBe(mockOffset);
+    expect(plainView.getUint32(16, true)).toBe(0);
+    const encryptedView = new DataView(encrypted.getPacketData().buffer, 8);
+    expect(encryptedView.getUint32(16, true)).toBe(1);
+  });
 });
@@ -16,27 +16,40 @@
 
 import { EspCommand, EspCommandPacket, EspPacketDirection } from "./command";
 
+/**
+ * Starts a flash write session. The ROM erases the whole region before it
+ * answers, the stub erases as it writes.
+ */
 export class EspCommandFlashBegin extends EspCommandPacket {
-  private flashBeginData = new ArrayBuffer(16);
-  private eraseSizeView = new DataView(this.flashBeginData, 0, 4);
-  private numDataPacketsView = new DataView(this.flashBeginData, 4, 4);
-  private dataSizeView = new DataView(this.flashBeginData, 8, 4);
-  private offsetView = new DataView(this.flashBeginData, 12, 4);
-
+  /**
+   * @param image The data that will be written.
+   * @param offset Flash offset to write to.
+   * @param packetSize Size of each FLASH_DATA block.
+   * @param numPackets Number of FLASH_DATA blocks.
+   * @param encrypted Sent as a fifth word when defined. The ROM loaders of
+   * the ESP32-S2 and later chips expect it, the stub and older ROMs do not.
+   */
   constructor(
     image: Uint8Array,
     offset: number,
     packetSize: number,
     numPackets: number,
+    encrypted?: boolean,
   ) {
     super();
 
     this.direction = EspPacketDirection.REQUEST;
     this.command = EspCommand.FLASH_BEGIN;
-    this.eraseSizeView.setUint32(0, image.length, true);
-    this.numDataPacketsView.setUint32(0, numPackets, true);
-    this.dataSizeView.setUint32(0, packetSize, true);
-    this.offsetView.setUint32(0, offset, true);
-    this.data = new Uint8Array(this.flashBeginData);
+
+    const dataPayload = new Uint8Array(encrypted === undefined ? 16 : 20);
+    const view = new DataView(dataPayload.buffer);
+    view.setUint32(0, image.length, true); // Size to erase
+    view.setUint32(4, numPackets, true);
+    view.setUint32(8, packetSize, true);
+    view.setUint32(12, offset, true);
+    if (encrypted !== undefined) {
+      view.setUint32(16, encrypted ? 1 : 0, true);
+    }
+    this.data = dataPayload;
   }
 }
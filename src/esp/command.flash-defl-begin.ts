@@ -0,0 +1,43 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { EspCommand, EspCommandPacket, EspPacketDirection } from "./command";
+
+export class EspCommandFlashDeflBegin extends EspCommandPacket {
+  constructor(
+    public writeSize: number, // Uncompressed size; the ROM wants it rounded up to whole blocks
+    public numBlocks: number, // Number of compressed data packets
+    public blockSize: number,
+    public offset: number,
+    public encrypted?: boolean, // Fifth word, only for ESP32-S2 and later ROMs
+  ) {
+    super();
+    this.direction = EspPacketDirection.REQUEST;
+    this.command = EspCommand.FLASH_DEFL_BEGIN;
+    this.checksum = 0; // Not used
+
+    const dataPayload = new Uint8Array(encrypted === undefined ? 16 : 20);
+    const view = new DataView(dataPayload.buffer);
+    view.setUint32(0, this.writeSize, true);
+    view.setUint32(4, this.numBlocks, true);
+    view.setUint32(8, this.blockSize, true);
+    view.setUint32(12, this.offset, true);
+    if (encrypted !== undefined) {
+      view.setUint32(16, encrypted ? 1 : 0, true);
+    }
+    this.data = dataPayload;
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect } from "vitest";
+import { EspCommandFlashDeflData } from "./command.flash-defl-data";
+import { EspCommand, EspPacketDirection } from "./command";
+
+describe("EspCommandFlashDeflData", () => {
+  const blockSize = 4096;
+  const compressed = new Uint8Array(blockSize * 2 + 100).map(
+    (_, i) => i & 0xff,
+  );
+
+  it("should set the correct command identifier and packet direction", () => {
+    const command = new EspCommandFlashDeflData(compressed, 0, blockSize);
+    // FLASH_DEFL_DATA command is identified by 0x11
+    expect(command.command).toBe(EspCommand.FLASH_DEFL_DATA);
+    expect(command.direction).toBe(EspPacketDirection.REQUEST);
+  });
+
+  it("should encode the 16-byte header followed by the block", () => {
+    const command = new EspCommandFlashDeflData(compressed, 1, blockSize);
+    const view = new DataView(command.data.buffer);
+
+    expect(view.getUint32(0, true)).toBe(blockSize);
+    expect(view.getUint32(4, true)).toBe(1);
+    expect(view.getUint32(8, true)).toBe(0);
+    expect(view.getUint32(12, true)).toBe(0);
+    expect(command.data.slice(16)).toEqual(
+      compressed.slice(blockSize, blockSize * 2),
+    );
+  });
+
+  it("should not pad the last block", () => {
+    const command = new EspCommandFlashDeflData(compressed, 2, blockSize);
+    const view = new DataView(command.data.buffer);
+
+    expect(view.getUint32(0, true)).toBe(100);
+    expect(command.size).toBe(16 + 100);
+  });
+
+  it("should checksum only the compressed block", () => {
+    const command = new EspCommandFlashDeflData(compressed, 2, blockSize);
+    expect(command.checksum).toBe(
+      command.generateChecksum(compressed.slice(blockSize * 2)),
+    );
+  });
+});
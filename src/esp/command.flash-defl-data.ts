@@ -0,0 +1,48 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { EspCommand, EspCommandPacket, EspPacketDirection } from "./command";
+
+export class EspCommandFlashDeflData extends EspCommandPacket {
+  constructor(
+    compressed: Uint8Array,
+    sequenceNumber: number,
+    blockSize: number,
+  ) {
+    super();
+
+    this.direction = EspPacketDirection.REQUEST;
+    this.command = EspCommand.FLASH_DEFL_DATA;
+
+    // Unlike FLASH_DATA, the last block is not padded: the compressed stream
+    // simply ends there.
+    const block = compressed.subarray(
+      sequenceNumber * blockSize,
+      sequenceNumber * blockSize + blockSize,
+    );
+
+    const flashDownloadData = new Uint8Array(16 + block.length);
+    const view = new DataView(flashDownloadData.buffer);
+    view.setUint32(0, block.length, true);
+    view.setUint32(4, sequenceNumber, true);
+    view.setUint32(8, 0, true);
+    view.setUint32(12, 0, true);
+
+    flashDownloadData.set(block, 16);
+    this.data = flashDownloadData;
+    this.checksum = this.generateChecksum(block);
+  }
+}
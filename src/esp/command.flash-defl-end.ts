@@ -0,0 +1,32 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { EspCommand, EspCommandPacket, EspPacketDirection } from "./command";
+
+export class EspCommandFlashDeflEnd extends EspCommandPacket {
+  constructor(public stayInLoader = true) {
+    super();
+    this.direction = EspPacketDirection.REQUEST;
+    this.command = EspCommand.FLASH_DEFL_END;
+    this.checksum = 0; // Not used
+
+    const dataPayload = new Uint8Array(4);
+    const view = new DataView(dataPayload.buffer);
+    // 0 to reboot, 1 to stay in the loader
+    view.setUint32(0, stayInLoader ? 1 : 0, true);
+    this.data = dataPayload;
+  }
+}
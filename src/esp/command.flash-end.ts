@@ -1,5 +1,9 @@
 import { EspCommand, EspCommandPacket, EspPacketDirection } from "./command";
 
+/**
+ * Ends a FLASH_BEGIN session. With `runUserCode` the ROM jumps to the
+ * application without a chip reset, otherwise the chip reboots.
+ */
 export class EspCommandFlashEnd extends EspCommandPacket {
   constructor(public runUserCode = false) {
     super();
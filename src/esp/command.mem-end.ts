@@ -2,7 +2,7 @@ import { EspCommand, EspCommandPacket, EspPacketDirection } from "./command";
 
 export class EspCommandMemEnd extends EspCommandPacket {
   constructor(
-    public executeFlag: number,
+    public executeFlag: number, // 0 to jump to entryPoint, 1 to stay in the loader
     public entryPoint: number,
   ) {
     super();
@@ -0,0 +1,42 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { EspCommand, EspCommandPacket, EspPacketDirection } from "./command";
+
+/**
+ * Starts a streamed flash read. Only supported by the flasher stub.
+ */
+export class EspCommandReadFlash extends EspCommandPacket {
+  constructor(
+    public address: number,
+    public readSize: number,
+    public packetSize = 0x1000,
+    public maxInFlight = 64,
+  ) {
+    super();
+    this.direction = EspPacketDirection.REQUEST;
+    this.command = EspCommand.READ_FLASH;
+    this.checksum = 0; // Not used for this command
+
+    const dataPayload = new Uint8Array(16);
+    const view = new DataView(dataPayload.buffer);
+    view.setUint32(0, this.address, true);
+    view.setUint32(4, this.readSize, true);
+    view.setUint32(8, this.packetSize, true);
+    view.setUint32(12, this.maxInFlight, true); // Unacknowledged packets
+    this.data = dataPayload;
+  }
+}
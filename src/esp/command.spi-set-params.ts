@@ -16,6 +16,28 @@
 
 import { EspCommand, EspCommandPacket, EspPacketDirection } from "./command";
 
+/**
+ * Flash chip geometry sent with SPI_SET_PARAMS.
+ */
+export interface SpiFlashParams {
+  totalSize: number;
+  blockSize: number;
+  sectorSize: number;
+  pageSize: number;
+  statusMask: number;
+}
+
+/**
+ * Geometry of a typical 4MB flash chip.
+ */
+export const DEFAULT_SPI_FLASH_PARAMS: SpiFlashParams = {
+  totalSize: 4 * 1024 * 1024,
+  blockSize: 0x10000,
+  sectorSize: 0x1000,
+  pageSize: 0x100,
+  statusMask: 0xffffffff,
+};
+
 export class EspCommandSpiSetParams extends EspCommandPacket {
   private paramsData = new ArrayBuffer(24);
   private id = new DataView(this.paramsData, 0, 4);
@@ -25,16 +47,16 @@ export class EspCommandSpiSetParams extends EspCommandPacket {
   private pageSize = new DataView(this.paramsData, 16, 4);
   private statusMask = new DataView(this.paramsData, 20, 4);
 
-  constructor() {
+  constructor(params: SpiFlashParams = DEFAULT_SPI_FLASH_PARAMS) {
     super();
     this.direction = EspPacketDirection.REQUEST;
     this.command = EspCommand.SPI_SET_PARAMS;
     this.id.setUint32(0, 0, true);
-    this.totalSize.setUint32(0, 4 * 1024 * 1024, true);
-    this.blockSize.setUint32(0, 0x10000, true);
-    this.sectorSize.setUint32(0, 0x1000, true);
-    this.pageSize.setUint32(0, 0x100, true);
-    this.statusMask.setUint32(0, 0xffffffff, true);
+    this.totalSize.setUint32(0, params.totalSize, true);
+    this.blockSize.setUint32(0, params.blockSize, true);
+    this.sectorSize.setUint32(0, params.sectorSize, true);
+    this.pageSize.setUint32(0, params.pageSize, true);
+    this.statusMask.setUint32(0, params.statusMask, true);
     this.data = new Uint8Array(this.paramsData);
   }
 }
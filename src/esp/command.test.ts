@@ -14,7 +14,7 @@
  * limitations under the License.
  */
 
-import { describe, it, expect, beforeEach } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import { EspCommand, EspCommandPacket, EspPacketDirection } from "./command";
 
 describe("EspCommandPacket", () => {
@@ -178,6 +178,10 @@ describe("EspCommandPacket", () => {
   });
 
   describe("Response Parsing (parseResponse)", () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
     it("should correctly parse a successful response packet", () => {
       // Mock successful response packet
       // Direction: 0x01 (RESPONSE)
@@ -228,7 +232,7 @@ describe("EspCommandPacket", () => {
       ]);
 
       // Spy on console.log to check if error message is logged
-      const consoleSpy = vitest.spyOn(console, "log");
+      const consoleSpy = vi.spyOn(console, "log");
 
       packet.parseResponse(mockErrorResponse);
 
@@ -243,7 +247,103 @@ describe("EspCommandPacket", () => {
       expect(consoleSpy).toHaveBeenCalledWith(
         "Status Error: Received message is invalid. (parameters or length field is invalid)",
       );
-      consoleSpy.mockRestore(); // Clean up the spy
+    });
+
+    it("should read the status bytes after a stub payload", () => {
+      // SPI_FLASH_MD5 from the stub: 16 digest bytes followed by 2 status bytes.
+      const digest = new Uint8Array(16).fill(0xab);
+      const mockResponse = new Uint8Array([
+        EspPacketDirection.RESPONSE,
+        EspCommand.SPI_FLASH_MD5,
+        0x12,
+        0x00, // Size: 18
+        0x00,
+        0x00,
+        0x00,
+        0x00,
+        ...digest,
+        0x00, // Status: 0 (Success)
+        0x00, // Error: 0 (No error)
+      ]);
+
+      packet.parseResponse(mockResponse);
+
+      expect(packet.status).toBe(0x00);
+      expect(packet.error).toBe(0x00);
+      expect(packet.payload).toEqual(digest);
+    });
+
+    it("should read the four status bytes after a ROM payload", () => {
+      // SPI_FLASH_MD5 from an ESP32 ROM: 32 hex characters and 4 status bytes.
+      const digest = new TextEncoder().encode("0".repeat(32));
+      const mockResponse = new Uint8Array([
+        EspPacketDirection.RESPONSE,
+        EspCommand.SPI_FLASH_MD5,
+        0x24,
+        0x00, // Size: 36
+        0x00,
+        0x00,
+        0x00,
+        0x00,
+        ...digest,
+        0x01, // Status: 1 (Failure)
+        0x06, // Error: 0x06 (Failed to act)
+        0x00,
+        0x00,
+      ]);
+
+      vi.spyOn(console, "log").mockImplementation(() => {});
+      packet.parseResponse(mockResponse, 4);
+
+      expect(packet.status).toBe(0x01);
+      expect(packet.error).toBe(0x06);
+      expect(packet.payload).toEqual(digest);
+    });
+
+    it("should take the status length from the loader, not the data length", () => {
+      // A READ_REG answer from an ESP32 ROM: no payload and 4 status bytes.
+      const mockResponse = new Uint8Array([
+        EspPacketDirection.RESPONSE,
+        EspCommand.READ_REG,
+        0x04,
+        0x00, // Size: 4
+        0x00,
+        0x00,
+        0x00,
+        0x00,
+        0x01, // Status: 1 (Failure)
+        0x05, // Error: 0x05 (Received message is invalid)
+        0x00,
+        0x00,
+      ]);
+      vi.spyOn(console, "log").mockImplementation(() => {});
+
+      packet.parseResponse(mockResponse, 4);
+
+      expect(packet.status).toBe(0x01);
+      expect(packet.error).toBe(0x05);
+      expect(packet.payload).toEqual(new Uint8Array(0));
+    });
+
+    it("should report a response too short for its status bytes", () => {
+      const mockResponse = new Uint8Array([
+        EspPacketDirection.RESPONSE,
+        EspCommand.SYNC,
+        0x01,
+        0x00, // Size: 1
+        0x00,
+        0x00,
+        0x00,
+        0x00,
+        0x00,
+      ]);
+
+      packet.parseResponse(mockResponse, 2);
+
+      expect(() => packet.status).toThrow(
+        "Response to SYNC has 1 data bytes, fewer than the 2 status bytes the loader sends.",
+      );
+      expect(() => packet.payload).toThrow(Error);
     });
   });
 
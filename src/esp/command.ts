@@ -39,6 +39,7 @@ export enum EspCommand {
   FLASH_DEFL_DATA = 0x11,
   FLASH_DEFL_END = 0x12,
   SPI_FLASH_MD5 = 0x13,
+  GET_SECURITY_INFO = 0x14,
 
   // Stub loader only commands
   ERASE_FLASH = 0xd0,
@@ -50,6 +51,7 @@ export enum EspCommand {
 export class EspCommandPacket {
   private packetHeader: Uint8Array = new Uint8Array(8);
   private packetData: Uint8Array = new Uint8Array(0);
+  private statusLength = 2;
 
   set direction(direction: EspPacketDirection) {
     new DataView(this.packetHeader.buffer, 0, 1).setUint8(0, direction);
@@ -91,12 +93,41 @@ export class EspCommandPacket {
     return new DataView(this.packetHeader.buffer, 4, 4).getUint32(0, true);
   }
 
+  /**
+   * Offset of the status bytes, which trail any response payload.
+   * @throws Error if the response is too short to hold the status bytes.
+   */
+  get statusOffset(): number {
+    const offset = this.packetData.length - this.statusLength;
+    if (offset < 0) {
+      throw new Error(
+        `Response to ${EspCommand[this.command] ?? this.command} has ${this.packetData.length} data bytes, fewer than the ${this.statusLength} status bytes the loader sends.`,
+      );
+    }
+    return offset;
+  }
+
   get status(): number {
-    return new DataView(this.packetData.buffer, 0, 1).getUint8(0);
+    return new DataView(
+      this.packetData.buffer,
+      this.packetData.byteOffset + this.statusOffset,
+      1,
+    ).getUint8(0);
   }
 
   get error(): number {
-    return new DataView(this.packetData.buffer, 1, 1).getUint8(0);
+    return new DataView(
+      this.packetData.buffer,
+      this.packetData.byteOffset + this.statusOffset + 1,
+      1,
+    ).getUint8(0);
+  }
+
+  /**
+   * The response payload without the trailing status bytes.
+   */
+  get payload(): Uint8Array {
+    return this.packetData.subarray(0, this.statusOffset);
   }
 
   generateChecksum(data: Uint8Array): number {
@@ -116,15 +147,22 @@ export class EspCommandPacket {
     return this.packetData;
   }
 
-  parseResponse(responsePacket: Uint8Array) {
+  /**
+   * Reads a response packet.
+   * @param responsePacket The packet, without SLIP framing.
+   * @param statusLength Number of status bytes that end the data. The
+   * ESP32-family ROMs send four, the stub and the ESP8266 ROM two.
+   */
+  parseResponse(responsePacket: Uint8Array, statusLength = 2) {
     const responseDataView = new DataView(responsePacket.buffer);
     this.direction = responseDataView.getUint8(0) as EspPacketDirection;
     this.command = responseDataView.getUint8(1) as EspCommand;
     this.size = responseDataView.getUint16(2, true);
     this.value = responseDataView.getUint32(4, true);
     this.packetData = responsePacket.slice(8);
+    this.statusLength = statusLength;
 
-    if (this.status === 1) {
+    if (this.packetData.length >= statusLength && this.status === 1) {
       console.log(this.getErrorMessage(this.error));
     }
   }
@@ -150,17 +188,28 @@ export class EspCommandPacket {
     }
   }
 
-  getPacketData(): Uint8Array {
+  private getHeader(): Uint8Array {
     const header = new Uint8Array(8);
     const view = new DataView(header.buffer);
     view.setUint8(0, this.direction);
     view.setUint8(1, this.command);
     view.setUint16(2, this.data.length, true);
     view.setUint32(4, this.checksum, true);
-    return new Uint8Array([...header, ...this.data]);
+    return header;
+  }
+
+  getPacketData(): Uint8Array {
+    const packet = new Uint8Array(8 + this.data.length);
+    packet.set(this.getHeader());
+    packet.set(this.data, 8);
+    return packet;
   }
 
+  /**
+   * The packet as a SLIP frame, encoded straight from the header and data
+   * without assembling the unescaped packet first.
+   */
   getSlipStreamEncodedPacketData(): Uint8Array {
-    return slipEncode(this.getPacketData());
+    return slipEncode(this.getHeader(), this.data);
   }
 }
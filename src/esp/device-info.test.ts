@@ -0,0 +1,64 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect } from "vitest";
+import { readDeviceInfo } from "./device-info";
+import { ChipFamily } from "./chip-targets";
+
+const createReader =
+  (registers: Record<number, number>) => async (address: number) =>
+    registers[address] ?? 0;
+
+describe("readDeviceInfo", () => {
+  it("should decode an ESP32 and estimate a 40MHz crystal", async () => {
+    const info = await readDeviceInfo(
+      ChipFamily.ESP32,
+      createReader({
+        0x3ff5a004: 0xaabbccdd,
+        0x3ff5a008: 0x00002468,
+        // Package 1 (D0WD), revision bit 0.
+        0x3ff5a00c: (1 << 9) | (1 << 15),
+        // Revision bit 1 and minor revision 1.
+        0x3ff5a014: (1 << 20) | (1 << 24),
+        0x3ff6607c: 0x80000000,
+        // 40MHz / 115200 baud.
+        0x3ff40014: 347,
+      }),
+      115200,
+    );
+
+    expect(info.mac).toBe("24:68:aa:bb:cc:dd");
+    expect(info.packageName).toBe("ESP32-D0WD");
+    expect(info.revision).toEqual({ major: 3, minor: 1 });
+    expect(info.crystalFrequency).toBe(40);
+  });
+
+  it("should build the ESP8266 MAC from its OUI flag", async () => {
+    const info = await readDeviceInfo(
+      ChipFamily.ESP8266,
+      createReader({
+        0x3ff00050: 0x56000000,
+        0x3ff00054: 0x00011234,
+        // 26MHz / 115200 baud with the ESP8266's clock divider of 2.
+        0x60000014: 451,
+      }),
+      115200,
+    );
+
+    expect(info.mac).toBe("ac:d0:74:12:34:56");
+    expect(info.crystalFrequency).toBe(26);
+  });
+});
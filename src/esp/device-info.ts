@@ -0,0 +1,297 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ChipFamily, getChipTarget } from "./chip-targets";
+
+/**
+ * Identity of a connected chip, as esptool prints it on connect.
+ */
+export interface DeviceInfo {
+  /** The chip family. */
+  chip: ChipFamily;
+  /** Human readable chip name. */
+  chipName: string;
+  /** Factory base MAC address, formatted as `aa:bb:cc:dd:ee:ff`. */
+  mac: string;
+  /** Silicon revision. Printed as `v<major>.<minor>`. */
+  revision: { major: number; minor: number };
+  /** Package version from the eFuses. */
+  packageVersion: number;
+  /** Package or variant name, e.g. "ESP32-D0WD". */
+  packageName: string;
+  /** Crystal frequency in MHz. */
+  crystalFrequency: number;
+}
+
+/**
+ * Reads a 32-bit register on the device.
+ */
+export type RegisterReader = (address: number) => Promise<number>;
+
+/**
+ * A bit field in an eFuse block word.
+ */
+interface EfuseField {
+  /** Word index within the block. */
+  word: number;
+  shift: number;
+  mask: number;
+}
+
+/**
+ * Where a chip keeps its identity fields. Most chips keep them in eFuse block
+ * 1 (the system data block) right after the MAC address.
+ */
+interface IdentityLayout {
+  blockBase: number;
+  packageVersion: EfuseField;
+  majorRevision: EfuseField;
+  minorRevision: EfuseField[];
+  packageNames: Record<number, string>;
+  /** Fixed crystal frequency. Undefined if it is estimated from the UART. */
+  crystalFrequency?: number;
+}
+
+const field = (word: number, shift: number, mask: number): EfuseField => ({
+  word,
+  shift,
+  mask,
+});
+
+/**
+ * Per-chip identity layouts for the chips that share the eFuse block scheme.
+ * The ESP32 and ESP8266 are handled separately.
+ */
+const IDENTITY_LAYOUTS: Partial<Record<ChipFamily, IdentityLayout>> = {
+  [ChipFamily.ESP32S2]: {
+    blockBase: 0x3f41a044,
+    packageVersion: field(4, 0, 0xf),
+    majorRevision: field(3, 18, 0x3),
+    minorRevision: [field(3, 20, 0x1), field(4, 4, 0x7)],
+    packageNames: { 0: "ESP32-S2", 1: "ESP32-S2FH2", 2: "ESP32-S2FH4" },
+    crystalFrequency: 40,
+  },
+  [ChipFamily.ESP32S3]: {
+    blockBase: 0x60007044,
+    packageVersion: field(3, 21, 0x7),
+    majorRevision: field(5, 24, 0x3),
+    minorRevision: [field(5, 23, 0x1), field(3, 18, 0x7)],
+    packageNames: { 0: "ESP32-S3 (QFN56)", 1: "ESP32-S3-PICO-1 (LGA56)" },
+    crystalFrequency: 40,
+  },
+  [ChipFamily.ESP32C2]: {
+    blockBase: 0x60008840,
+    packageVersion: field(1, 22, 0x7),
+    majorRevision: field(1, 20, 0x3),
+    minorRevision: [field(1, 16, 0xf)],
+    packageNames: { 0: "ESP32-C2", 1: "ESP32-C2" },
+  },
+  [ChipFamily.ESP32C3]: {
+    blockBase: 0x60008844,
+    packageVersion: field(3, 21, 0x7),
+    majorRevision: field(5, 24, 0x3),
+    minorRevision: [field(5, 23, 0x1), field(3, 18, 0x7)],
+    packageNames: {
+      0: "ESP32-C3 (QFN32)",
+      1: "ESP8685 (QFN28)",
+      2: "ESP32-C3 AZ (QFN32)",
+      3: "ESP8686 (QFN24)",
+    },
+    crystalFrequency: 40,
+  },
+  [ChipFamily.ESP32C5]: {
+    blockBase: 0x600b4844,
+    packageVersion: field(2, 26, 0x7),
+    majorRevision: field(2, 4, 0x3),
+    minorRevision: [field(2, 0, 0xf)],
+    packageNames: { 0: "ESP32-C5" },
+    crystalFrequency: 48,
+  },
+  [ChipFamily.ESP32C6]: {
+    blockBase: 0x600b0844,
+    packageVersion: field(3, 24, 0x7),
+    majorRevision: field(3, 22, 0x3),
+    minorRevision: [field(3, 18, 0xf)],
+    packageNames: { 0: "ESP32-C6 (QFN40)", 1: "ESP32-C6FH4 (QFN32)" },
+    crystalFrequency: 40,
+  },
+  [ChipFamily.ESP32C61]: {
+    blockBase: 0x600b4844,
+    packageVersion: field(2, 26, 0x7),
+    majorRevision: field(2, 4, 0x3),
+    minorRevision: [field(2, 0, 0xf)],
+    packageNames: { 0: "ESP32-C61" },
+    crystalFrequency: 40,
+  },
+  [ChipFamily.ESP32H2]: {
+    blockBase: 0x600b0844,
+    packageVersion: field(4, 0, 0x7),
+    majorRevision: field(3, 21, 0x3),
+    minorRevision: [field(3, 18, 0x7)],
+    packageNames: { 0: "ESP32-H2" },
+    crystalFrequency: 32,
+  },
+  [ChipFamily.ESP32P4]: {
+    blockBase: 0x5012d044,
+    packageVersion: field(2, 20, 0x7),
+    majorRevision: field(2, 4, 0x3),
+    minorRevision: [field(2, 0, 0xf)],
+    packageNames: { 0: "ESP32-P4" },
+    crystalFrequency: 40,
+  },
+};
+
+const ESP32_PACKAGE_NAMES: Record<number, string> = {
+  0: "ESP32-D0WDQ6",
+  1: "ESP32-D0WD",
+  2: "ESP32-D2WD",
+  4: "ESP32-U4WDH",
+  5: "ESP32-PICO-D4",
+  6: "ESP32-PICO-V3-02",
+  7: "ESP32-D0WDR2-V3",
+};
+
+/** Register with the UART clock divider, used to estimate the crystal. */
+const UART_CLKDIV_REG: Partial<Record<ChipFamily, number>> = {
+  [ChipFamily.ESP32]: 0x3ff40014,
+  [ChipFamily.ESP32C2]: 0x60000014,
+  [ChipFamily.ESP8266]: 0x60000014,
+};
+
+/** APB_CTL_DATE register, whose top bit is part of the ESP32 revision. */
+const ESP32_APB_CTL_DATE_REG = 0x3ff6607c;
+
+/**
+ * Reads the MAC address, revision, package and crystal frequency of a chip.
+ * @param chip The detected chip family.
+ * @param readRegister Reads a register on the device.
+ * @param baudRate The baud rate of the connection, to estimate the crystal.
+ */
+export async function readDeviceInfo(
+  chip: ChipFamily,
+  readRegister: RegisterReader,
+  baudRate: number,
+): Promise<DeviceInfo> {
+  const target = getChipTarget(chip);
+  const info = {
+    chip,
+    chipName: target.name,
+    mac: await readMac(chip, readRegister),
+  };
+
+  if (chip === ChipFamily.ESP8266) {
+    return {
+      ...info,
+      revision: { major: 0, minor: 0 },
+      packageVersion: 0,
+      packageName: "ESP8266EX",
+      crystalFrequency: await estimateCrystal(chip, readRegister, baudRate),
+    };
+  }
+
+  if (chip === ChipFamily.ESP32) {
+    const efuse = (word: number) => readRegister(target.efuseBase + 4 * word);
+    const word3 = await efuse(3);
+    const word5 = await efuse(5);
+    const apbCtlDate = await readRegister(ESP32_APB_CTL_DATE_REG);
+    const packageVersion = ((word3 >> 9) & 0x7) | (((word3 >> 2) & 0x1) << 3);
+    const revisionBits =
+      ((word3 >> 15) & 0x1) |
+      (((word5 >> 20) & 0x1) << 1) |
+      (((apbCtlDate >>> 31) & 0x1) << 2);
+    return {
+      ...info,
+      revision: {
+        major: { 1: 1, 3: 2, 7: 3 }[revisionBits] ?? 0,
+        minor: (word5 >> 24) & 0x3,
+      },
+      packageVersion,
+      packageName: ESP32_PACKAGE_NAMES[packageVersion] ?? target.name,
+      crystalFrequency: await estimateCrystal(chip, readRegister, baudRate),
+    };
+  }
+
+  const layout = IDENTITY_LAYOUTS[chip]!;
+  const readField = async ({ word, shift, mask }: EfuseField) =>
+    ((await readRegister(layout.blockBase + 4 * word)) >>> shift) & mask;
+
+  let minor = 0;
+  for (const part of layout.minorRevision) {
+    minor = (minor << (32 - Math.clz32(part.mask))) | (await readField(part));
+  }
+  const packageVersion = await readField(layout.packageVersion);
+  return {
+    ...info,
+    revision: { major: await readField(layout.majorRevision), minor },
+    packageVersion,
+    packageName: layout.packageNames[packageVersion] ?? target.name,
+    crystalFrequency:
+      layout.crystalFrequency ??
+      (await estimateCrystal(chip, readRegister, baudRate)),
+  };
+}
+
+/**
+ * Reads the factory MAC address from the chip's MAC registers.
+ */
+async function readMac(
+  chip: ChipFamily,
+  readRegister: RegisterReader,
+): Promise<string> {
+  const registers = getChipTarget(chip).macRegisters;
+  const mac0 = await readRegister(registers[0]);
+  const mac1 = await readRegister(registers[1]);
+
+  let bytes: number[];
+  if (chip === ChipFamily.ESP8266) {
+    // The OUI is either stored in a third word or selected by a flag.
+    const mac3 = await readRegister(registers[2]);
+    let oui: number[];
+    if (mac3 !== 0) {
+      oui = [(mac3 >> 16) & 0xff, (mac3 >> 8) & 0xff, mac3 & 0xff];
+    } else if (((mac1 >> 16) & 0xff) === 0) {
+      oui = [0x18, 0xfe, 0x34];
+    } else {
+      oui = [0xac, 0xd0, 0x74];
+    }
+    bytes = [...oui, (mac1 >> 8) & 0xff, mac1 & 0xff, (mac0 >>> 24) & 0xff];
+  } else {
+    bytes = [
+      (mac1 >> 8) & 0xff,
+      mac1 & 0xff,
+      (mac0 >>> 24) & 0xff,
+      (mac0 >> 16) & 0xff,
+      (mac0 >> 8) & 0xff,
+      mac0 & 0xff,
+    ];
+  }
+  return bytes.map((b) => b.toString(16).padStart(2, "0")).join(":");
+}
+
+/**
+ * Estimates the crystal frequency from the UART clock divider the ROM
+ * configured for the current baud rate, and rounds it to 26 or 40 MHz.
+ */
+async function estimateCrystal(
+  chip: ChipFamily,
+  readRegister: RegisterReader,
+  baudRate: number,
+): Promise<number> {
+  const divider = (await readRegister(UART_CLKDIV_REG[chip]!)) & 0xfffff;
+  const clockDivider = chip === ChipFamily.ESP8266 ? 2 : 1;
+  const estimate = (baudRate * divider) / 1e6 / clockDivider;
+  return estimate > 33 ? 40 : 26;
+}
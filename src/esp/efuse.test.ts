@@ -0,0 +1,299 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect } from "vitest";
+import { readEfuses } from "./efuse";
+import { ChipFamily } from "./chip-targets";
+
+const createReader =
+  (registers: Record<number, number>) => async (address: number) =>
+    registers[address] ?? 0;
+
+describe("readEfuses", () => {
+  it("should report a blank ESP32-C3 as unprotected", async () => {
+    const summary = await readEfuses(ChipFamily.ESP32C3, createReader({}));
+
+    expect(summary.blocks).toHaveLength(11);
+    expect(summary.blocks[0].name).toBe("BLOCK0");
+    expect(summary.flashEncryptionEnabled).toBe(false);
+    expect(summary.secureBootEnabled).toBe(false);
+    expect(summary.jtagDisabled).toBe(false);
+    expect(summary.downloadModeDisabled).toBe(false);
+    expect(summary.customMac).toBeNull();
+    expect(summary.fields.KEY_PURPOSE_0).toEqual({
+      value: 0,
+      writeProtected: false,
+      readProtected: false,
+    });
+  });
+
+  it("should decode the ESP32-C3 security fields", async () => {
+    const summary = await readEfuses(
+      ChipFamily.ESP32C3,
+      createReader({
+        // WR_DIS: SPI_BOOT_CRYPT_CNT and BLOCK_USR_DATA.
+        0x6000882c: (1 << 4) | (1 << 22),
+        // RD_DIS for BLOCK_KEY0, DIS_USB_JTAG and DIS_PAD_JTAG.
+        0x60008830: 0x1 | (1 << 9) | (1 << 19),
+        // SPI_BOOT_CRYPT_CNT = 1, KEY_PURPOSE_0 = 4.
+        0x60008834: (1 << 18) | (4 << 24),
+        // SECURE_BOOT_EN.
+        0x60008838: 1 << 20,
+        // DIS_DOWNLOAD_MODE.
+        0x6000883c: 1,
+        // CUSTOM_MAC at bit 200 of BLOCK_USR_DATA.
+        0x60008894: 0x33221100,
+        0x60008898: 0x00665544,
+      }),
+    );
+
+    expect(summary.flashEncryptionEnabled).toBe(true);
+    expect(summary.secureBootEnabled).toBe(true);
+    expect(summary.jtagDisabled).toBe(true);
+    expect(summary.downloadModeDisabled).toBe(true);
+    expect(summary.customMac).toBe("11:22:33:44:55:66");
+    expect(summary.fields.SPI_BOOT_CRYPT_CNT).toEqual({
+      value: 1,
+      writeProtected: true,
+      readProtected: false,
+    });
+    expect(summary.fields.KEY_PURPOSE_0.value).toBe(4);
+    expect(summary.blocks[3].writeProtected).toBe(true);
+    expect(summary.blocks[4]).toMatchObject({
+      name: "BLOCK_KEY0",
+      readProtected: true,
+    });
+  });
+
+  it("should treat an even flash encryption counter as disabled", async () => {
+    const summary = await readEfuses(
+      ChipFamily.ESP32,
+      createReader({ 0x3ff5a000: 0x3 << 20 }),
+    );
+
+    expect(summary.fields.FLASH_CRYPT_CNT.value).toBe(3);
+    expect(summary.flashEncryptionEnabled).toBe(false);
+  });
+
+  it("should decode the ESP32 secure boot, JTAG and custom MAC", async () => {
+    const summary = await readEfuses(
+      ChipFamily.ESP32,
+      createReader({
+        // WR_DIS for ABS_DONE_1, RD_DIS for BLOCK2, UART_DOWNLOAD_DIS.
+        0x3ff5a000: (1 << 13) | (1 << 17) | (1 << 27),
+        // ABS_DONE_1 and JTAG_DISABLE.
+        0x3ff5a018: (1 << 5) | (1 << 6),
+        // CUSTOM_MAC after the CRC byte, MAC_VERSION 1.
+        0x3ff5a078: 0x565452a5,
+        0x3ff5a07c: 0x00005a58,
+        0x3ff5a08c: 0x01000000,
+      }),
+    );
+
+    expect(summary.secureBootEnabled).toBe(true);
+    expect(summary.jtagDisabled).toBe(true);
+    expect(summary.downloadModeDisabled).toBe(true);
+    expect(summary.customMac).toBe("52:54:56:58:5a:00");
+    expect(summary.fields.ABS_DONE_1.writeProtected).toBe(true);
+    expect(summary.blocks[2].readProtected).toBe(true);
+  });
+
+  it("should only treat the ESP32-S3 JTAG as disabled with DIS_USB_JTAG at bit 118", async () => {
+    // DIS_DCACHE (bit 41) and DIS_PAD_JTAG, then SECURE_BOOT_EN.
+    const registers = {
+      0x60007030: (1 << 9) | (1 << 19),
+      0x60007038: 1 << 20,
+    };
+    const padOnly = await readEfuses(
+      ChipFamily.ESP32S3,
+      createReader(registers),
+    );
+    expect(padOnly.secureBootEnabled).toBe(true);
+    expect(padOnly.jtagDisabled).toBe(false);
+
+    const summary = await readEfuses(
+      ChipFamily.ESP32S3,
+      createReader({ ...registers, 0x60007038: (1 << 20) | (1 << 22) }),
+    );
+    expect(summary.fields.DIS_USB_JTAG.value).toBe(1);
+    expect(summary.jtagDisabled).toBe(true);
+  });
+
+  it("should decode the ESP32-S2 security fields", async () => {
+    const summary = await readEfuses(
+      ChipFamily.ESP32S2,
+      createReader({
+        // HARD_DIS_JTAG and DIS_DOWNLOAD_MANUAL_ENCRYPT.
+        0x3f41a030: (1 << 18) | (1 << 19),
+        // SPI_BOOT_CRYPT_CNT = 7.
+        0x3f41a034: 0x7 << 18,
+        // SECURE_BOOT_EN.
+        0x3f41a038: 1 << 20,
+      }),
+    );
+
+    expect(summary.flashEncryptionEnabled).toBe(true);
+    expect(summary.secureBootEnabled).toBe(true);
+    expect(summary.jtagDisabled).toBe(true);
+    expect(summary.fields.DIS_DOWNLOAD_MANUAL_ENCRYPT.value).toBe(1);
+  });
+
+  it.each([ChipFamily.ESP32C6, ChipFamily.ESP32H2])(
+    "should decode the %s security fields",
+    async (chip) => {
+      const summary = await readEfuses(
+        chip,
+        createReader({
+          // DIS_USB_JTAG and DIS_PAD_JTAG.
+          0x600b0830: (1 << 9) | (1 << 19),
+          // SPI_BOOT_CRYPT_CNT = 1, KEY_PURPOSE_0 = 4.
+          0x600b0834: (1 << 18) | (4 << 24),
+          // SECURE_BOOT_EN.
+          0x600b0838: 1 << 20,
+          // DIS_DOWNLOAD_MODE.
+          0x600b083c: 1,
+        }),
+      );
+
+      expect(summary.blocks).toHaveLength(11);
+      expect(summary.flashEncryptionEnabled).toBe(true);
+      expect(summary.secureBootEnabled).toBe(true);
+      expect(summary.jtagDisabled).toBe(true);
+      expect(summary.downloadModeDisabled).toBe(true);
+      expect(summary.fields.KEY_PURPOSE_0.value).toBe(4);
+    },
+  );
+
+  it("should decode the five bit ESP32-C5 key purposes", async () => {
+    const summary = await readEfuses(
+      ChipFamily.ESP32C5,
+      createReader({
+        // SPI_BOOT_CRYPT_CNT = 1, KEY_PURPOSE_0 = 17, KEY_PURPOSE_1 = 4.
+        0x600b4834: (1 << 16) | (17 << 22) | (4 << 27),
+        // KEY_PURPOSE_2 = 5 and SECURE_BOOT_EN.
+        0x600b4838: 5 | (1 << 25),
+      }),
+    );
+
+    expect(summary.flashEncryptionEnabled).toBe(true);
+    expect(summary.secureBootEnabled).toBe(true);
+    expect(summary.fields.KEY_PURPOSE_0.value).toBe(17);
+    expect(summary.fields.KEY_PURPOSE_1.value).toBe(4);
+    expect(summary.fields.KEY_PURPOSE_2.value).toBe(5);
+  });
+
+  it("should decode the ESP32-C61 security fields", async () => {
+    const summary = await readEfuses(
+      ChipFamily.ESP32C61,
+      createReader({
+        // DIS_DOWNLOAD_MANUAL_ENCRYPT and SPI_BOOT_CRYPT_CNT = 1.
+        0x600b4830: (1 << 14) | (1 << 23),
+        // KEY_PURPOSE_0 = 4, KEY_PURPOSE_5 = 2 and SECURE_BOOT_EN.
+        0x600b4834: 4 | (2 << 20) | (1 << 26),
+      }),
+    );
+
+    expect(summary.flashEncryptionEnabled).toBe(true);
+    expect(summary.secureBootEnabled).toBe(true);
+    expect(summary.fields.DIS_DOWNLOAD_MANUAL_ENCRYPT.value).toBe(1);
+    expect(summary.fields.KEY_PURPOSE_0.value).toBe(4);
+    expect(summary.fields.KEY_PURPOSE_5.value).toBe(2);
+  });
+
+  it("should decode the ESP32-P4 key manager and security fields", async () => {
+    const summary = await readEfuses(
+      ChipFamily.ESP32P4,
+      createReader({
+        // FORCE_USE_KEY_MANAGER_KEY = 2, SPI_BOOT_CRYPT_CNT = 1,
+        // KEY_PURPOSE_0 = 4.
+        0x5012d034: (2 << 9) | (1 << 18) | (4 << 24),
+        // SECURE_BOOT_EN.
+        0x5012d038: 1 << 20,
+      }),
+    );
+
+    expect(summary.flashEncryptionEnabled).toBe(true);
+    expect(summary.secureBootEnabled).toBe(true);
+    expect(summary.fields.FORCE_USE_KEY_MANAGER_KEY.value).toBe(2);
+    expect(summary.fields.KEY_PURPOSE_0.value).toBe(4);
+  });
+
+  it("should decode the ESP32-C2 blocks and custom MAC", async () => {
+    const summary = await readEfuses(
+      ChipFamily.ESP32C2,
+      createReader({
+        // WR_DIS for BLOCK_KEY0.
+        0x6000882c: 1 << 7,
+        // RD_DIS for the low key half, DIS_PAD_JTAG, SPI_BOOT_CRYPT_CNT = 1,
+        // DIS_DOWNLOAD_MODE, SECURE_BOOT_EN and CUSTOM_MAC_USED.
+        0x60008830: 1 | (1 << 4) | (1 << 7) | (1 << 14) | (1 << 21) | (1 << 26),
+        // CUSTOM_MAC at the start of BLOCK1.
+        0x60008834: 0x33221100,
+        0x60008838: 0x00005544,
+      }),
+    );
+
+    expect(summary.blocks.map((block) => block.name)).toEqual([
+      "BLOCK0",
+      "BLOCK1",
+      "BLOCK2",
+      "BLOCK_KEY0",
+    ]);
+    expect(summary.flashEncryptionEnabled).toBe(true);
+    expect(summary.secureBootEnabled).toBe(true);
+    expect(summary.jtagDisabled).toBe(true);
+    expect(summary.downloadModeDisabled).toBe(true);
+    expect(summary.customMac).toBe("00:11:22:33:44:55");
+    expect(summary.blocks[3]).toMatchObject({
+      readProtected: true,
+      writeProtected: true,
+    });
+  });
+
+  it("should ignore the ESP32-C2 custom MAC unless it is marked as used", async () => {
+    const summary = await readEfuses(
+      ChipFamily.ESP32C2,
+      createReader({ 0x60008834: 0x33221100 }),
+    );
+
+    expect(summary.customMac).toBeNull();
+  });
+
+  it("should read the raw ESP8266 eFuse words", async () => {
+    const summary = await readEfuses(
+      ChipFamily.ESP8266,
+      createReader({ 0x3ff00050: 0x12345678, 0x3ff0005c: 0x9abcdef0 }),
+    );
+
+    expect(summary.blocks).toEqual([
+      {
+        name: "EFUSE",
+        words: [0x12345678, 0, 0, 0x9abcdef0],
+        readProtected: false,
+        writeProtected: false,
+      },
+    ]);
+    expect(summary.fields).toEqual({});
+    expect(summary.secureBootEnabled).toBe(false);
+    expect(summary.customMac).toBeNull();
+  });
+
+  it("should reject chips without an eFuse layout", async () => {
+    await expect(
+      readEfuses(ChipFamily.UNKNOWN, createReader({})),
+    ).rejects.toThrow("eFuse decoding is not supported for UNKNOWN.");
+  });
+});
@@ -0,0 +1,598 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ChipFamily, getChipTarget } from "./chip-targets";
+import { RegisterReader } from "./device-info";
+
+/**
+ * Location of an eFuse block in the read registers.
+ */
+interface EfuseBlockDefinition {
+  name: string;
+  address: number;
+  words: number;
+  /** RD_DIS bit that hides the block from software. */
+  readProtectBit?: number;
+  /** WR_DIS bit that makes the whole block read-only. */
+  writeProtectBit?: number;
+}
+
+/**
+ * A named field, located by its bit offset within a block.
+ */
+interface EfuseFieldDefinition {
+  name: string;
+  block: number;
+  bit: number;
+  bits: number;
+  /** WR_DIS bit that protects the field. */
+  writeProtectBit?: number;
+}
+
+/**
+ * A raw eFuse block as read from the device.
+ */
+export interface EfuseBlock {
+  name: string;
+  /** The block contents, one 32-bit word per entry. */
+  words: number[];
+  /** Software reads of the block return zeros. */
+  readProtected: boolean;
+  /** The block can no longer be programmed. */
+  writeProtected: boolean;
+}
+
+/**
+ * A decoded eFuse field.
+ */
+export interface EfuseField {
+  value: number;
+  /** The field can no longer be programmed. */
+  writeProtected: boolean;
+  /** The field lives in a block hidden from software. */
+  readProtected: boolean;
+}
+
+/**
+ * Decoded eFuse state of a chip.
+ */
+export interface EfuseSummary {
+  chip: ChipFamily;
+  blocks: EfuseBlock[];
+  /** Named fields, using the names from the Espressif eFuse tables. */
+  fields: Record<string, EfuseField>;
+  /** The flash encryption counter has an odd number of bits set. */
+  flashEncryptionEnabled: boolean;
+  secureBootEnabled: boolean;
+  /** JTAG is permanently disabled on every interface the chip has. */
+  jtagDisabled: boolean;
+  downloadModeDisabled: boolean;
+  /** Custom MAC address programmed in the user block, or null if unset. */
+  customMac: string | null;
+}
+
+interface EfuseLayout {
+  blocks: EfuseBlockDefinition[];
+  fields: EfuseFieldDefinition[];
+  /** Bit range of WR_DIS and RD_DIS in block 0, if the chip has them. */
+  writeDisable?: { bit: number; bits: number };
+  readDisable?: { bit: number; bits: number };
+  /** Bit offset of the custom MAC in the block, if the chip has one. */
+  customMac?: { block: number; bit: number };
+  summarize(
+    value: (name: string) => number,
+  ): Pick<
+    EfuseSummary,
+    | "flashEncryptionEnabled"
+    | "secureBootEnabled"
+    | "jtagDisabled"
+    | "downloadModeDisabled"
+  > & { customMacValid: boolean };
+}
+
+const ESP32_LAYOUT: EfuseLayout = {
+  blocks: [
+    { name: "BLOCK0", address: 0x3ff5a000, words: 7 },
+    {
+      name: "BLOCK1",
+      address: 0x3ff5a038,
+      words: 8,
+      readProtectBit: 0,
+      writeProtectBit: 7,
+    },
+    {
+      name: "BLOCK2",
+      address: 0x3ff5a058,
+      words: 8,
+      readProtectBit: 1,
+      writeProtectBit: 8,
+    },
+    {
+      name: "BLOCK3",
+      address: 0x3ff5a078,
+      words: 8,
+      readProtectBit: 2,
+      writeProtectBit: 9,
+    },
+  ],
+  fields: [
+    { name: "WR_DIS", block: 0, bit: 0, bits: 16, writeProtectBit: 1 },
+    { name: "RD_DIS", block: 0, bit: 16, bits: 4, writeProtectBit: 0 },
+    { name: "FLASH_CRYPT_CNT", block: 0, bit: 20, bits: 7, writeProtectBit: 2 },
+    {
+      name: "UART_DOWNLOAD_DIS",
+      block: 0,
+      bit: 27,
+      bits: 1,
+      writeProtectBit: 2,
+    },
+    {
+      name: "FLASH_CRYPT_CONFIG",
+      block: 0,
+      bit: 188,
+      bits: 4,
+      writeProtectBit: 10,
+    },
+    { name: "CODING_SCHEME", block: 0, bit: 192, bits: 2, writeProtectBit: 10 },
+    {
+      name: "CONSOLE_DEBUG_DISABLE",
+      block: 0,
+      bit: 194,
+      bits: 1,
+      writeProtectBit: 15,
+    },
+    { name: "ABS_DONE_0", block: 0, bit: 196, bits: 1, writeProtectBit: 12 },
+    { name: "ABS_DONE_1", block: 0, bit: 197, bits: 1, writeProtectBit: 13 },
+    { name: "JTAG_DISABLE", block: 0, bit: 198, bits: 1, writeProtectBit: 14 },
+    {
+      name: "DISABLE_DL_ENCRYPT",
+      block: 0,
+      bit: 199,
+      bits: 1,
+      writeProtectBit: 15,
+    },
+    {
+      name: "DISABLE_DL_DECRYPT",
+      block: 0,
+      bit: 200,
+      bits: 1,
+      writeProtectBit: 15,
+    },
+    {
+      name: "DISABLE_DL_CACHE",
+      block: 0,
+      bit: 201,
+      bits: 1,
+      writeProtectBit: 15,
+    },
+    { name: "MAC_VERSION", block: 3, bit: 184, bits: 8, writeProtectBit: 9 },
+  ],
+  writeDisable: { bit: 0, bits: 16 },
+  readDisable: { bit: 16, bits: 4 },
+  customMac: { block: 3, bit: 8 },
+  summarize: (value) => ({
+    flashEncryptionEnabled: popcount(value("FLASH_CRYPT_CNT")) % 2 === 1,
+    secureBootEnabled: value("ABS_DONE_0") === 1 || value("ABS_DONE_1") === 1,
+    jtagDisabled: value("JTAG_DISABLE") === 1,
+    downloadModeDisabled: value("UART_DOWNLOAD_DIS") === 1,
+    customMacValid: value("MAC_VERSION") === 1,
+  }),
+};
+
+/**
+ * A field in block 0, which holds the configuration on every chip.
+ */
+function config(
+  name: string,
+  bit: number,
+  bits: number,
+  writeProtectBit?: number,
+): EfuseFieldDefinition {
+  return { name, block: 0, bit, bits, writeProtectBit };
+}
+
+/**
+ * The six KEY_PURPOSE fields, which sit back to back in block 0 and are
+ * write protected by WR_DIS bits 8 to 13.
+ */
+function keyPurposeFields(bit: number, bits: number): EfuseFieldDefinition[] {
+  return [0, 1, 2, 3, 4, 5].map((i) =>
+    config(`KEY_PURPOSE_${i}`, bit + bits * i, bits, 8 + i),
+  );
+}
+
+/**
+ * The three SECURE_BOOT_KEY_REVOKE bits, write protected by WR_DIS 5 to 7.
+ */
+function keyRevokeFields(bit: number): EfuseFieldDefinition[] {
+  return [0, 1, 2].map((i) =>
+    config(`SECURE_BOOT_KEY_REVOKE${i}`, bit + i, 1, 5 + i),
+  );
+}
+
+/**
+ * The blocks of the ESP32-S2 and every later chip except the ESP32-C2:
+ * block 0 holds the configuration, block 1 the MAC and system data, blocks
+ * 4 to 9 the keys. Only the fields within block 0 move between chips.
+ */
+function createBlocks(efuseBase: number): EfuseBlockDefinition[] {
+  const keyBlocks = [0, 1, 2, 3, 4, 5].map((i) => ({
+    name: `BLOCK_KEY${i}`,
+    address: efuseBase + 0x9c + 0x20 * i,
+    words: 8,
+    readProtectBit: i,
+    writeProtectBit: 23 + i,
+  }));
+  return [
+    { name: "BLOCK0", address: efuseBase + 0x2c, words: 6 },
+    {
+      name: "BLOCK_SYS_DATA",
+      address: efuseBase + 0x44,
+      words: 6,
+      writeProtectBit: 20,
+    },
+    {
+      name: "BLOCK_SYS_DATA1",
+      address: efuseBase + 0x5c,
+      words: 8,
+      writeProtectBit: 21,
+    },
+    {
+      name: "BLOCK_USR_DATA",
+      address: efuseBase + 0x7c,
+      words: 8,
+      writeProtectBit: 22,
+    },
+    ...keyBlocks,
+    {
+      name: "BLOCK_SYS_DATA2",
+      address: efuseBase + 0x15c,
+      words: 8,
+      readProtectBit: 6,
+      writeProtectBit: 29,
+    },
+  ];
+}
+
+/**
+ * Creates the layout of a chip that uses createBlocks.
+ * @param chip The chip, for its eFuse base address.
+ * @param fields The block 0 fields of the chip.
+ * @param jtagFields The fields that all have to be set for JTAG to be
+ * permanently disabled.
+ */
+function createLayout(
+  chip: ChipFamily,
+  fields: EfuseFieldDefinition[],
+  jtagFields: string[],
+): EfuseLayout {
+  return {
+    blocks: createBlocks(getChipTarget(chip).efuseBase),
+    fields: [config("WR_DIS", 0, 32), config("RD_DIS", 32, 7, 0), ...fields],
+    writeDisable: { bit: 0, bits: 32 },
+    readDisable: { bit: 32, bits: 7 },
+    customMac: { block: 3, bit: 200 },
+    summarize: (value) => ({
+      flashEncryptionEnabled: popcount(value("SPI_BOOT_CRYPT_CNT")) % 2 === 1,
+      secureBootEnabled: value("SECURE_BOOT_EN") === 1,
+      jtagDisabled: jtagFields.every((name) => value(name) === 1),
+      downloadModeDisabled: value("DIS_DOWNLOAD_MODE") === 1,
+      customMacValid: true,
+    }),
+  };
+}
+
+// The tables below follow the BLOCK0 field definitions of espefuse and the
+// ESP-IDF eFuse tables. Only security relevant fields are decoded.
+
+const ESP32S2_FIELDS: EfuseFieldDefinition[] = [
+  // The ESP32-S2 has no USB JTAG, so its JTAG bits sit elsewhere.
+  config("SOFT_DIS_JTAG", 49, 1, 2),
+  config("HARD_DIS_JTAG", 50, 1, 2),
+  config("DIS_DOWNLOAD_MANUAL_ENCRYPT", 51, 1, 2),
+  config("SPI_BOOT_CRYPT_CNT", 82, 3, 4),
+  ...keyRevokeFields(85),
+  ...keyPurposeFields(88, 4),
+  config("SECURE_BOOT_EN", 116, 1, 15),
+  config("SECURE_BOOT_AGGRESSIVE_REVOKE", 117, 1, 16),
+  config("DIS_DOWNLOAD_MODE", 128, 1, 18),
+  config("DIS_USB_DOWNLOAD_MODE", 132, 1, 18),
+  config("ENABLE_SECURITY_DOWNLOAD", 133, 1, 18),
+];
+
+const ESP32S3_FIELDS: EfuseFieldDefinition[] = [
+  config("SOFT_DIS_JTAG", 48, 3, 31),
+  config("DIS_PAD_JTAG", 51, 1, 2),
+  config("DIS_DOWNLOAD_MANUAL_ENCRYPT", 52, 1, 2),
+  config("SPI_BOOT_CRYPT_CNT", 82, 3, 4),
+  ...keyRevokeFields(85),
+  ...keyPurposeFields(88, 4),
+  config("SECURE_BOOT_EN", 116, 1, 15),
+  config("SECURE_BOOT_AGGRESSIVE_REVOKE", 117, 1, 16),
+  // Unlike the RISC-V chips, the ESP32-S3 keeps its USB JTAG bits in the
+  // third word, after the key purposes.
+  config("DIS_USB_JTAG", 118, 1, 2),
+  config("DIS_USB_SERIAL_JTAG", 119, 1, 2),
+  config("STRAP_JTAG_SEL", 120, 1, 2),
+  config("DIS_DOWNLOAD_MODE", 128, 1, 18),
+  config("DIS_USB_SERIAL_JTAG_DOWNLOAD_MODE", 132, 1, 18),
+  config("ENABLE_SECURITY_DOWNLOAD", 133, 1, 18),
+];
+
+/**
+ * Block 0 of the ESP32-C3, ESP32-C6 and ESP32-H2. They differ in fields that
+ * are not decoded here, such as the DPA settings of the C6 and H2.
+ */
+const ESP32C3_FIELDS: EfuseFieldDefinition[] = [
+  config("DIS_USB_JTAG", 41, 1, 2),
+  config("DIS_USB_SERIAL_JTAG", 43, 1, 2),
+  config("SOFT_DIS_JTAG", 48, 3, 31),
+  config("DIS_PAD_JTAG", 51, 1, 2),
+  config("DIS_DOWNLOAD_MANUAL_ENCRYPT", 52, 1, 2),
+  config("SPI_BOOT_CRYPT_CNT", 82, 3, 4),
+  ...keyRevokeFields(85),
+  ...keyPurposeFields(88, 4),
+  config("SECURE_BOOT_EN", 116, 1, 15),
+  config("SECURE_BOOT_AGGRESSIVE_REVOKE", 117, 1, 16),
+  config("DIS_DOWNLOAD_MODE", 128, 1, 18),
+  config("DIS_USB_SERIAL_JTAG_DOWNLOAD_MODE", 132, 1, 18),
+  config("ENABLE_SECURITY_DOWNLOAD", 133, 1, 18),
+];
+
+const ESP32C5_FIELDS: EfuseFieldDefinition[] = [
+  config("DIS_USB_JTAG", 41, 1, 2),
+  config("DIS_USB_SERIAL_JTAG", 43, 1, 2),
+  config("SOFT_DIS_JTAG", 48, 3, 31),
+  config("DIS_PAD_JTAG", 51, 1, 2),
+  config("DIS_DOWNLOAD_MANUAL_ENCRYPT", 52, 1, 2),
+  // The key manager settings push the crypt counter down by two bits and
+  // the key purposes are five bits wide.
+  config("FORCE_USE_KEY_MANAGER_KEY", 74, 4),
+  config("SPI_BOOT_CRYPT_CNT", 80, 3, 4),
+  ...keyRevokeFields(83),
+  ...keyPurposeFields(86, 5),
+  config("SECURE_BOOT_EN", 121, 1, 15),
+  config("SECURE_BOOT_AGGRESSIVE_REVOKE", 122, 1, 16),
+  config("DIS_DOWNLOAD_MODE", 128, 1, 18),
+  config("DIS_USB_SERIAL_JTAG_DOWNLOAD_MODE", 132, 1, 18),
+  config("ENABLE_SECURITY_DOWNLOAD", 133, 1, 18),
+];
+
+const ESP32C61_FIELDS: EfuseFieldDefinition[] = [
+  // The ESP32-C61 has no SOFT_DIS_JTAG and packs its fields tighter.
+  config("DIS_USB_JTAG", 40, 1, 2),
+  config("DIS_USB_SERIAL_JTAG", 41, 1, 2),
+  config("DIS_PAD_JTAG", 45, 1, 2),
+  config("DIS_DOWNLOAD_MANUAL_ENCRYPT", 46, 1, 2),
+  config("SPI_BOOT_CRYPT_CNT", 55, 3, 4),
+  ...keyRevokeFields(58),
+  ...keyPurposeFields(64, 4),
+  config("SECURE_BOOT_EN", 90, 1, 15),
+  config("SECURE_BOOT_AGGRESSIVE_REVOKE", 91, 1, 16),
+  config("DIS_DOWNLOAD_MODE", 96, 1, 18),
+  config("DIS_USB_SERIAL_JTAG_DOWNLOAD_MODE", 99, 1, 18),
+  config("ENABLE_SECURITY_DOWNLOAD", 100, 1, 18),
+];
+
+const ESP32P4_FIELDS: EfuseFieldDefinition[] = [
+  config("DIS_USB_JTAG", 41, 1, 2),
+  config("DIS_USB_SERIAL_JTAG", 43, 1, 2),
+  config("SOFT_DIS_JTAG", 48, 3, 31),
+  config("DIS_PAD_JTAG", 51, 1, 2),
+  config("DIS_DOWNLOAD_MANUAL_ENCRYPT", 52, 1, 2),
+  config("FORCE_USE_KEY_MANAGER_KEY", 73, 4),
+  config("SPI_BOOT_CRYPT_CNT", 82, 3, 4),
+  ...keyRevokeFields(85),
+  ...keyPurposeFields(88, 4),
+  config("SECURE_BOOT_EN", 116, 1, 15),
+  config("SECURE_BOOT_AGGRESSIVE_REVOKE", 117, 1, 16),
+  config("DIS_DOWNLOAD_MODE", 128, 1, 18),
+  config("DIS_USB_SERIAL_JTAG_DOWNLOAD_MODE", 132, 1, 18),
+  config("ENABLE_SECURITY_DOWNLOAD", 133, 1, 18),
+];
+
+/**
+ * The ESP32-C2 has four blocks: a two word block 0, a short user block
+ * holding the custom MAC, the system data and a single key block.
+ */
+function createEsp32c2Layout(efuseBase: number): EfuseLayout {
+  return {
+    blocks: [
+      { name: "BLOCK0", address: efuseBase + 0x2c, words: 2 },
+      {
+        name: "BLOCK1",
+        address: efuseBase + 0x34,
+        words: 3,
+        writeProtectBit: 5,
+      },
+      {
+        name: "BLOCK2",
+        address: efuseBase + 0x40,
+        words: 8,
+        writeProtectBit: 6,
+      },
+      {
+        name: "BLOCK_KEY0",
+        address: efuseBase + 0x60,
+        words: 8,
+        // RD_DIS bit 0 hides the low half of the key, bit 1 the high half.
+        readProtectBit: 0,
+        writeProtectBit: 7,
+      },
+    ],
+    fields: [
+      config("WR_DIS", 0, 8),
+      config("RD_DIS", 32, 2, 0),
+      config("DIS_PAD_JTAG", 36, 1, 1),
+      config("DIS_DOWNLOAD_ICACHE", 37, 1, 1),
+      config("DIS_DOWNLOAD_MANUAL_ENCRYPT", 38, 1, 2),
+      config("SPI_BOOT_CRYPT_CNT", 39, 3, 2),
+      config("XTS_KEY_LENGTH_256", 42, 1, 2),
+      config("DIS_DOWNLOAD_MODE", 46, 1, 3),
+      config("DIS_DIRECT_BOOT", 47, 1, 3),
+      config("ENABLE_SECURITY_DOWNLOAD", 48, 1, 3),
+      config("SECURE_BOOT_EN", 53, 1, 2),
+      config("SECURE_VERSION", 54, 4, 4),
+      config("CUSTOM_MAC_USED", 58, 1, 5),
+    ],
+    writeDisable: { bit: 0, bits: 8 },
+    readDisable: { bit: 32, bits: 2 },
+    customMac: { block: 1, bit: 0 },
+    summarize: (value) => ({
+      flashEncryptionEnabled: popcount(value("SPI_BOOT_CRYPT_CNT")) % 2 === 1,
+      secureBootEnabled: value("SECURE_BOOT_EN") === 1,
+      // The ESP32-C2 has no USB JTAG.
+      jtagDisabled: value("DIS_PAD_JTAG") === 1,
+      downloadModeDisabled: value("DIS_DOWNLOAD_MODE") === 1,
+      customMacValid: value("CUSTOM_MAC_USED") === 1,
+    }),
+  };
+}
+
+/**
+ * The ESP8266 has four eFuse words holding the MAC and chip options, and no
+ * flash encryption, secure boot or protection bits.
+ */
+function createEsp8266Layout(efuseBase: number): EfuseLayout {
+  return {
+    blocks: [{ name: "EFUSE", address: efuseBase, words: 4 }],
+    fields: [],
+    summarize: () => ({
+      flashEncryptionEnabled: false,
+      secureBootEnabled: false,
+      jtagDisabled: false,
+      downloadModeDisabled: false,
+      customMacValid: false,
+    }),
+  };
+}
+
+/**
+ * Returns the eFuse layout of a chip.
+ * @throws Error for chips whose eFuses are not supported.
+ */
+function getEfuseLayout(chip: ChipFamily): EfuseLayout {
+  const usbAndPadJtag = ["DIS_USB_JTAG", "DIS_PAD_JTAG"];
+  switch (chip) {
+    case ChipFamily.ESP32:
+      return ESP32_LAYOUT;
+    case ChipFamily.ESP8266:
+      return createEsp8266Layout(getChipTarget(chip).efuseBase);
+    case ChipFamily.ESP32C2:
+      return createEsp32c2Layout(getChipTarget(chip).efuseBase);
+    case ChipFamily.ESP32S2:
+      return createLayout(chip, ESP32S2_FIELDS, ["HARD_DIS_JTAG"]);
+    case ChipFamily.ESP32S3:
+      return createLayout(chip, ESP32S3_FIELDS, usbAndPadJtag);
+    case ChipFamily.ESP32C3:
+    case ChipFamily.ESP32C6:
+    case ChipFamily.ESP32H2:
+      return createLayout(chip, ESP32C3_FIELDS, usbAndPadJtag);
+    case ChipFamily.ESP32C5:
+      return createLayout(chip, ESP32C5_FIELDS, usbAndPadJtag);
+    case ChipFamily.ESP32C61:
+      return createLayout(chip, ESP32C61_FIELDS, usbAndPadJtag);
+    case ChipFamily.ESP32P4:
+      return createLayout(chip, ESP32P4_FIELDS, usbAndPadJtag);
+    default:
+      throw new Error(
+        `eFuse decoding is not supported for ${ChipFamily[chip]}.`,
+      );
+  }
+}
+
+/**
+ * Reads every eFuse block of a chip through READ_REG and decodes the
+ * security relevant fields. Nothing is ever written.
+ * @param chip The chip family.
+ * @param readRegister Reads a register on the device.
+ */
+export async function readEfuses(
+  chip: ChipFamily,
+  readRegister: RegisterReader,
+): Promise<EfuseSummary> {
+  const layout = getEfuseLayout(chip);
+
+  const rawBlocks: number[][] = [];
+  for (const block of layout.blocks) {
+    const words: number[] = [];
+    for (let i = 0; i < block.words; i++) {
+      words.push(await readRegister(block.address + 4 * i));
+    }
+    rawBlocks.push(words);
+  }
+
+  const writeDisable = layout.writeDisable
+    ? readBits(rawBlocks[0], layout.writeDisable.bit, layout.writeDisable.bits)
+    : 0;
+  const readDisable = layout.readDisable
+    ? readBits(rawBlocks[0], layout.readDisable.bit, layout.readDisable.bits)
+    : 0;
+  const isSet = (mask: number, bit?: number) =>
+    bit !== undefined && ((mask >>> bit) & 1) === 1;
+
+  const blocks = layout.blocks.map((block, i) => ({
+    name: block.name,
+    words: rawBlocks[i],
+    readProtected: isSet(readDisable, block.readProtectBit),
+    writeProtected: isSet(writeDisable, block.writeProtectBit),
+  }));
+
+  const fields: Record<string, EfuseField> = {};
+  for (const field of layout.fields) {
+    fields[field.name] = {
+      value: readBits(rawBlocks[field.block], field.bit, field.bits),
+      writeProtected:
+        isSet(writeDisable, field.writeProtectBit) ||
+        blocks[field.block].writeProtected,
+      readProtected: blocks[field.block].readProtected,
+    };
+  }
+
+  const { customMacValid, ...summary } = layout.summarize(
+    (name) => fields[name].value,
+  );
+  const macLocation = layout.customMac;
+  const macBytes = [0, 1, 2, 3, 4, 5].map((i) =>
+    macLocation
+      ? readBits(rawBlocks[macLocation.block], macLocation.bit + 8 * i, 8)
+      : 0,
+  );
+  const customMac =
+    customMacValid && macBytes.some((b) => b !== 0)
+      ? macBytes.map((b) => b.toString(16).padStart(2, "0")).join(":")
+      : null;
+
+  return { chip, blocks, fields, ...summary, customMac };
+}
+
+/**
+ * Extracts up to 32 bits starting at a bit offset, which may span two words.
+ */
+function readBits(words: number[], bit: number, bits: number): number {
+  const word = Math.floor(bit / 32);
+  const shift = bit % 32;
+  const low = words[word] >>> shift;
+  const high = shift + bits > 32 ? words[word + 1] << (32 - shift) : 0;
+  const mask = bits === 32 ? 0xffffffff : (1 << bits) - 1;
+  return ((low | high) & mask) >>> 0;
+}
+
+function popcount(value: number): number {
+  let count = 0;
+  for (let v = value; v; v &= v - 1) count++;
+  return count;
+}
@@ -0,0 +1,58 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { Partition } from "../partition/partition";
+
+/**
+ * Thrown when the MD5 digest the device reports for a freshly written region
+ * does not match the data that was sent.
+ */
+export class FlashVerificationError extends Error {
+  constructor(
+    public readonly partition: Partition,
+    public readonly offset: number,
+    public readonly expectedMd5: string,
+    public readonly actualMd5: string,
+  ) {
+    const address = `0x${offset.toString(16).padStart(8, "0")}`;
+    super(
+      `Flash verification failed for ${partition.filename} at ${address}: expected MD5 ${expectedMd5}, device reported ${actualMd5}.`,
+    );
+    this.name = "FlashVerificationError";
+  }
+}
+
+/**
+ * Thrown for operations the ROM loader refuses while the chip is in secure
+ * download mode, such as reading registers or starting the flasher stub.
+ */
+export class SecureDownloadModeError extends Error {
+  constructor(public readonly operation: string) {
+    super(`${operation} is not available in secure download mode.`);
+    this.name = "SecureDownloadModeError";
+  }
+}
+
+/**
+ * Thrown when the serial port does not take a write in time, for example
+ * because the device stopped reading and the buffers are full.
+ */
+export class WriteTimeoutError extends Error {
+  constructor(public readonly timeout: number) {
+    super(`Writing to the serial port did not complete within ${timeout}ms.`);
+    this.name = "WriteTimeoutError";
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect, vi } from "vitest";
+import {
+  parseResetSequence,
+  runResetSequence,
+  RESET_SEQUENCES,
+} from "./reset-strategies";
+import { SerialTransport } from "../transport/transport";
+
+describe("parseResetSequence", () => {
+  it("should expand a named strategy", () => {
+    expect(parseResetSequence("hard-reset")).toEqual([
+      { requestToSend: true },
+      { wait: 100 },
+      { requestToSend: false },
+    ]);
+  });
+
+  it("should parse every command of a custom sequence", () => {
+    expect(parseResetSequence("D1|R0|U0,1|W0.05")).toEqual([
+      { dataTerminalReady: true },
+      { requestToSend: false },
+      { dataTerminalReady: false, requestToSend: true },
+      { wait: 50 },
+    ]);
+  });
+
+  it("should return no steps for no-reset", () => {
+    expect(parseResetSequence("no-reset")).toEqual([]);
+  });
+
+  it("should parse all named strategies", () => {
+    for (const name of Object.keys(RESET_SEQUENCES)) {
+      expect(() => parseResetSequence(name)).not.toThrow();
+    }
+  });
+
+  it.each(["D2", "X1", "U1", "W", "W-1", "classic|D0"])(
+    "should reject the invalid sequence %s",
+    (sequence) => {
+      expect(() => parseResetSequence(sequence)).toThrow(
+        "Invalid reset sequence command",
+      );
+    },
+  );
+});
+
+describe("runResetSequence", () => {
+  it("should set the lines in order", async () => {
+    const transport = {
+      setSignals: vi.fn().mockResolvedValue(undefined),
+    } as unknown as SerialTransport;
+
+    await runResetSequence(transport, parseResetSequence("D0|R1|W0|R0"));
+
+    expect(vi.mocked(transport.setSignals).mock.calls).toEqual([
+      [{ dataTerminalReady: false }],
+      [{ requestToSend: true }],
+      [{ requestToSend: false }],
+    ]);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SerialTransport } from "../transport/transport";
+import { sleep } from "../utils/common";
+
+/**
+ * Named reset sequences, written in the custom sequence syntax.
+ * - `classic`: the USB-UART auto-reset circuit found on most dev boards.
+ * - `unix-tight`: the same, but changes DTR and RTS together, for drivers
+ *   where setting one line briefly glitches the other.
+ * - `usb-jtag`: the native USB-Serial-JTAG peripheral of the S3, C3 and later.
+ * - `hard-reset`: pulses EN without holding IO0, so the app boots.
+ * - `no-reset`: leaves the lines alone, for boards without auto-reset.
+ */
+export const RESET_SEQUENCES = {
+  classic: "D0|R1|W0.1|D1|R0|W0.05|D0",
+  "unix-tight": "U0,0|U1,1|U0,1|W0.1|U1,0|W0.05|U0,0|D0",
+  "usb-jtag": "R0|D0|W0.1|D1|R0|W0.1|R1|D0|R1|W0.1|D0|R0",
+  "hard-reset": "R1|W0.1|R0",
+  "no-reset": "",
+} as const;
+
+export type ResetStrategyName = keyof typeof RESET_SEQUENCES;
+
+/**
+ * A named strategy or a custom sequence such as `D0|R1|W0.1|D1|R0|W0.05|D0`,
+ * using esptool's syntax: `D`/`R` set DTR/RTS to 0 or 1, `U0,1` sets DTR and
+ * RTS together and `W` waits the given number of seconds.
+ */
+export type ResetStrategy = ResetStrategyName | (string & {});
+
+/**
+ * Strategies `sync()` tries in turn when none is configured.
+ */
+export const DEFAULT_RESET_STRATEGIES: ResetStrategyName[] = [
+  "classic",
+  "unix-tight",
+  "usb-jtag",
+];
+
+/**
+ * A single step of a reset sequence.
+ */
+export type ResetStep =
+  | { dataTerminalReady?: boolean; requestToSend?: boolean }
+  | { wait: number };
+
+/**
+ * Turns a strategy into the steps to run.
+ * @param strategy A named strategy or a custom sequence.
+ * @throws Error if a custom sequence contains an invalid command.
+ */
+export function parseResetSequence(strategy: ResetStrategy): ResetStep[] {
+  const sequence = Object.hasOwn(RESET_SEQUENCES, strategy)
+    ? RESET_SEQUENCES[strategy as ResetStrategyName]
+    : strategy;
+  if (sequence.trim() === "") {
+    return [];
+  }
+
+  return sequence.split("|").map((token) => {
+    const command = token.trim();
+    const arg = command.slice(1);
+    switch (command[0]) {
+      case "D":
+        if (arg === "0" || arg === "1") {
+          return { dataTerminalReady: arg === "1" };
+        }
+        break;
+      case "R":
+        if (arg === "0" || arg === "1") {
+          return { requestToSend: arg === "1" };
+        }
+        break;
+      case "U": {
+        const match = /^([01]),([01])$/.exec(arg);
+        if (match) {
+          return {
+            dataTerminalReady: match[1] === "1",
+            requestToSend: match[2] === "1",
+          };
+        }
+        break;
+      }
+      case "W": {
+        const seconds = Number(arg);
+        if (arg !== "" && Number.isFinite(seconds) && seconds >= 0) {
+          return { wait: seconds * 1000 };
+        }
+        break;
+      }
+    }
+    throw new Error(`Invalid reset sequence command: "${command}".`);
+  });
+}
+
+/**
+ * Drives the DTR and RTS lines of a transport through a reset sequence.
+ * @param transport The transport to reset the device through.
+ * @param steps The steps from parseResetSequence.
+ */
+export async function runResetSequence(
+  transport: SerialTransport,
+  steps: ResetStep[],
+): Promise<void> {
+  for (const step of steps) {
+    if ("wait" in step) {
+      await sleep(step.wait);
+    } else {
+      await transport.setSignals(step);
+    }
+  }
+}
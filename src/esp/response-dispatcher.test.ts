@@ -0,0 +1,233 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  ResponseDispatcher,
+  ResponseFrame,
+  UNSOLICITED_FRAME_EVENT,
+} from "./response-dispatcher";
+import { EspCommand } from "./command";
+
+const createResponse = (command: EspCommand, value = 0, error = 0) => {
+  const packet = new Uint8Array(10);
+  const view = new DataView(packet.buffer);
+  view.setUint8(0, 0x01);
+  view.setUint8(1, command);
+  view.setUint16(2, 2, true);
+  view.setUint32(4, value, true);
+  packet[8] = error ? 1 : 0;
+  packet[9] = error;
+  return packet;
+};
+
+describe("ResponseDispatcher", () => {
+  let controller: ReadableStreamDefaultController<Uint8Array>;
+  let dispatcher: ResponseDispatcher;
+  let unsolicited: ResponseFrame[];
+
+  beforeEach(() => {
+    const stream = new ReadableStream<Uint8Array>({
+      start: (c) => {
+        controller = c;
+      },
+    });
+    dispatcher = new ResponseDispatcher(stream);
+    unsolicited = [];
+    dispatcher.addEventListener(UNSOLICITED_FRAME_EVENT, (event) =>
+      unsolicited.push((event as CustomEvent<ResponseFrame>).detail),
+    );
+  });
+
+  it("should route responses to the matching command", async () => {
+    const readReg = dispatcher.waitForResponse(EspCommand.READ_REG);
+    const sync = dispatcher.waitForResponse(EspCommand.SYNC);
+
+    controller.enqueue(createResponse(EspCommand.SYNC, 1));
+    controller.enqueue(createResponse(EspCommand.READ_REG, 0x1234));
+
+    await expect(readReg).resolves.toMatchObject({ value: 0x1234 });
+    await expect(sync).resolves.toMatchObject({ value: 1 });
+    expect(unsolicited).toHaveLength(0);
+  });
+
+  it("should report frames nobody waits for as unsolicited", async () => {
+    controller.enqueue(createResponse(EspCommand.SYNC));
+    controller.enqueue(new Uint8Array([0x4f, 0x48, 0x41, 0x49]));
+    await expect(
+      dispatcher.waitForResponse(EspCommand.READ_REG, { timeout: 20 }),
+    ).rejects.toThrow(
+      "Timeout: No response received for command READ_REG within 20ms.",
+    );
+
+    expect(unsolicited).toHaveLength(2);
+    expect(unsolicited[0].packet?.command).toBe(EspCommand.SYNC);
+    expect(unsolicited[1].packet).toBeNull();
+  });
+
+  it("should not hand a late response to a timed out request", async () => {
+    await expect(
+      dispatcher.waitForResponse(EspCommand.READ_REG, { timeout: 10 }),
+    ).rejects.toThrow("Timeout");
+
+    controller.enqueue(createResponse(EspCommand.READ_REG, 1));
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(unsolicited).toHaveLength(1);
+  });
+
+  it("should not hand a late response to the next request for the same command", async () => {
+    await expect(
+      dispatcher.waitForResponse(EspCommand.READ_REG, { timeout: 50 }),
+    ).rejects.toThrow("Timeout");
+
+    const next = dispatcher.waitForResponse(EspCommand.READ_REG);
+    controller.enqueue(createResponse(EspCommand.READ_REG, 1));
+    controller.enqueue(createResponse(EspCommand.READ_REG, 2));
+
+    await expect(next).resolves.toMatchObject({ value: 2 });
+    expect(unsolicited.map(({ packet }) => packet?.value)).toEqual([1]);
+  });
+
+  it("should drop the late response to a cancelled request", async () => {
+    const cancelled = dispatcher.waitForResponse(EspCommand.READ_REG, {
+      timeout: 50,
+    });
+    dispatcher.cancelAll();
+    await expect(cancelled).rejects.toThrow("Request cancelled.");
+
+    const next = dispatcher.waitForResponse(EspCommand.READ_REG);
+    controller.enqueue(createResponse(EspCommand.READ_REG, 1));
+    controller.enqueue(createResponse(EspCommand.READ_REG, 2));
+
+    await expect(next).resolves.toMatchObject({ value: 2 });
+  });
+
+  it("should stop expecting a late response after another timeout period", async () => {
+    await expect(
+      dispatcher.waitForResponse(EspCommand.READ_REG, { timeout: 10 }),
+    ).rejects.toThrow("Timeout");
+    await new Promise((resolve) => setTimeout(resolve, 20));
+
+    const next = dispatcher.waitForResponse(EspCommand.READ_REG);
+    controller.enqueue(createResponse(EspCommand.READ_REG, 2));
+
+    await expect(next).resolves.toMatchObject({ value: 2 });
+    expect(unsolicited).toHaveLength(0);
+  });
+
+  it("should forget abandoned requests when told to", async () => {
+    await expect(
+      dispatcher.waitForResponse(EspCommand.READ_REG, { timeout: 50 }),
+    ).rejects.toThrow("Timeout");
+    dispatcher.clearAbandoned();
+
+    const next = dispatcher.waitForResponse(EspCommand.READ_REG);
+    controller.enqueue(createResponse(EspCommand.READ_REG, 2));
+
+    await expect(next).resolves.toMatchObject({ value: 2 });
+  });
+
+  it("should hand any SYNC response to the next SYNC request", async () => {
+    await expect(
+      dispatcher.waitForResponse(EspCommand.SYNC, { timeout: 10 }),
+    ).rejects.toThrow("Timeout");
+
+    const next = dispatcher.waitForResponse(EspCommand.SYNC);
+    controller.enqueue(createResponse(EspCommand.SYNC, 1));
+
+    await expect(next).resolves.toMatchObject({ value: 1 });
+  });
+
+  it("should reject with the device's error status", async () => {
+    const response = dispatcher.waitForResponse(EspCommand.FLASH_DATA);
+    controller.enqueue(createResponse(EspCommand.FLASH_DATA, 0, 0x07));
+
+    await expect(response).rejects.toThrow(
+      "Device returned error for FLASH_DATA: Invalid CRC in message",
+    );
+  });
+
+  it("should parse responses with the loader's status length", async () => {
+    const stream = new ReadableStream<Uint8Array>({
+      start: (c) => {
+        controller = c;
+      },
+    });
+    dispatcher = new ResponseDispatcher(stream, () => 4);
+
+    const short = dispatcher.waitForResponse(EspCommand.SYNC);
+    controller.enqueue(createResponse(EspCommand.SYNC));
+    await expect(short).rejects.toThrow(
+      "Response to SYNC has 2 data bytes, fewer than the 4 status bytes the loader sends.",
+    );
+
+    const response = dispatcher.waitForResponse(EspCommand.READ_REG);
+    controller.enqueue(
+      new Uint8Array([0x01, EspCommand.READ_REG, 4, 0, 7, 0, 0, 0, 1, 5, 0, 0]),
+    );
+    await expect(response).rejects.toThrow(
+      "Device returned error for READ_REG",
+    );
+  });
+
+  it("should cancel pending requests and keep routing frames", async () => {
+    const abort = new AbortController();
+    const aborted = dispatcher.waitForResponse(EspCommand.SYNC, {
+      signal: abort.signal,
+    });
+    const cancelled = dispatcher.waitForResponse(EspCommand.READ_REG);
+
+    abort.abort();
+    dispatcher.cancelAll(new Error("Stopped by the user."));
+
+    await expect(aborted).rejects.toThrow("aborted");
+    await expect(cancelled).rejects.toThrow("Stopped by the user.");
+    const next = dispatcher.waitForResponse(EspCommand.READ_REG);
+    // The first READ_REG answers the cancelled request.
+    controller.enqueue(createResponse(EspCommand.READ_REG, 6));
+    controller.enqueue(createResponse(EspCommand.READ_REG, 7));
+    await expect(next).resolves.toMatchObject({ value: 7 });
+  });
+
+  it("should queue unclaimed frames for a subscription", async () => {
+    const frames = dispatcher.subscribe();
+    const response = dispatcher.waitForResponse(EspCommand.READ_FLASH);
+
+    controller.enqueue(createResponse(EspCommand.READ_FLASH));
+    controller.enqueue(new Uint8Array([1, 2, 3]));
+    controller.enqueue(new Uint8Array([4, 5]));
+
+    await expect(response).resolves.toBeDefined();
+    await expect(frames.next()).resolves.toEqual(new Uint8Array([1, 2, 3]));
+    await expect(frames.next()).resolves.toEqual(new Uint8Array([4, 5]));
+    frames.close();
+    expect(unsolicited).toHaveLength(0);
+  });
+
+  it("should reject everything once the stream closes", async () => {
+    const pending = dispatcher.waitForResponse(EspCommand.SYNC);
+    controller.close();
+
+    await expect(pending).rejects.toThrow(
+      "Stream closed unexpectedly while awaiting response.",
+    );
+    expect(dispatcher.closed).toBe(true);
+    await expect(dispatcher.waitForResponse(EspCommand.SYNC)).rejects.toThrow(
+      "Stream closed unexpectedly",
+    );
+  });
+});
@@ -0,0 +1,361 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { EspCommand, EspCommandPacket, EspPacketDirection } from "./command";
+
+/**
+ * Name of the event dispatched for frames no request was waiting for, such
+ * as the surplus SYNC responses or a response that arrived after its request
+ * timed out.
+ */
+export const UNSOLICITED_FRAME_EVENT = "unsolicited-frame";
+
+/**
+ * A decoded SLIP frame. `packet` is set when the frame is a well-formed
+ * response packet.
+ */
+export interface ResponseFrame {
+  frame: Uint8Array;
+  packet: EspCommandPacket | null;
+}
+
+/**
+ * Options for waiting on a frame.
+ */
+export interface WaitOptions {
+  /** Milliseconds to wait before rejecting. Defaults to 2000. */
+  timeout?: number;
+  /** Rejects the wait early when aborted. */
+  signal?: AbortSignal;
+  /** Message of the timeout error. */
+  timeoutMessage?: string;
+}
+
+interface PendingRequest {
+  match: (frame: ResponseFrame) => boolean;
+  resolve: (frame: ResponseFrame) => void;
+  reject: (reason: Error) => void;
+}
+
+/**
+ * A queue that collects every frame no pending request claims, for commands
+ * that stream data back, such as READ_FLASH.
+ */
+export interface FrameSubscription {
+  /**
+   * Returns the next queued frame, waiting for one if needed.
+   * @param timeout Milliseconds to wait before rejecting.
+   */
+  next(timeout?: number): Promise<Uint8Array>;
+  /** Stops collecting frames. */
+  close(): void;
+}
+
+/**
+ * Parses a frame as a response packet.
+ * @param statusLength Number of status bytes the loader sends.
+ * @returns The packet, or null if the frame is not a response.
+ */
+function parseResponseFrame(
+  frame: Uint8Array,
+  statusLength: number,
+): EspCommandPacket | null {
+  if (frame.length < 8 || frame[0] !== EspPacketDirection.RESPONSE) {
+    return null;
+  }
+  const view = new DataView(frame.buffer, frame.byteOffset, frame.length);
+  if (view.getUint16(2, true) !== frame.length - 8) {
+    return null;
+  }
+  const packet = new EspCommandPacket();
+  packet.parseResponse(frame.slice(), statusLength);
+  return packet;
+}
+
+/**
+ * Owns the reader of the decoded response stream for the lifetime of a
+ * connection. Every frame is parsed once and handed to the first pending
+ * request that matches it, then to open subscriptions. Anything left over is
+ * dispatched as an `unsolicited-frame` event. Requests register before the
+ * command is written, so a fast response can never slip past them. A late
+ * response to a request that timed out or was cancelled is unsolicited too,
+ * instead of answering the next request for the same command.
+ */
+export class ResponseDispatcher extends EventTarget {
+  private pending: PendingRequest[] = [];
+  private subscriptions = new Set<{
+    frames: Uint8Array[];
+    wake?: () => void;
+  }>();
+  /**
+   * Per command, until when the response to a request that timed out or was
+   * cancelled may still arrive. Such a response is not handed to a later
+   * request for the same command.
+   */
+  private abandoned = new Map<EspCommand, number[]>();
+  private closedError: Error | undefined;
+  private reader: ReadableStreamDefaultReader<Uint8Array>;
+
+  /**
+   * @param stream Stream of SLIP-decoded frames. The dispatcher locks it.
+   * @param statusLength Returns the number of status bytes the loader that
+   * is talking sends. The stub and the ESP8266 ROM send two, the other ROMs
+   * four.
+   */
+  constructor(
+    stream: ReadableStream<Uint8Array>,
+    private readonly statusLength: () => number = () => 2,
+  ) {
+    super();
+    this.reader = stream.getReader();
+    void this.run();
+  }
+
+  /** True once the underlying stream has ended or failed. */
+  public get closed(): boolean {
+    return this.closedError !== undefined;
+  }
+
+  private async run() {
+    try {
+      while (true) {
+        const { value, done } = await this.reader.read();
+        if (done) break;
+        if (value) this.route(value);
+      }
+      this.close(
+        new Error("Stream closed unexpectedly while awaiting response."),
+      );
+    } catch (e) {
+      this.close(e instanceof Error ? e : new Error(String(e)));
+    }
+  }
+
+  private route(frame: Uint8Array) {
+    const response: ResponseFrame = {
+      frame,
+      packet: parseResponseFrame(frame, this.statusLength()),
+    };
+    if (response.packet && this.claimAbandoned(response.packet.command)) {
+      this.dispatchEvent(
+        new CustomEvent<ResponseFrame>(UNSOLICITED_FRAME_EVENT, {
+          detail: response,
+        }),
+      );
+      return;
+    }
+    const index = this.pending.findIndex((p) => p.match(response));
+    if (index !== -1) {
+      const [request] = this.pending.splice(index, 1);
+      request.resolve(response);
+      return;
+    }
+    if (this.subscriptions.size > 0) {
+      for (const subscription of this.subscriptions) {
+        subscription.frames.push(frame);
+        subscription.wake?.();
+      }
+      return;
+    }
+    this.dispatchEvent(
+      new CustomEvent<ResponseFrame>(UNSOLICITED_FRAME_EVENT, {
+        detail: response,
+      }),
+    );
+  }
+
+  private close(error: Error) {
+    this.closedError = error;
+    this.cancelAll(error);
+    for (const subscription of this.subscriptions) {
+      subscription.wake?.();
+    }
+  }
+
+  /**
+   * Waits for the first frame that matches. Register the wait before writing
+   * the request it answers.
+   * @param match Returns true for the awaited frame.
+   * @param options Timeout and cancellation.
+   */
+  public waitForFrame(
+    match: (frame: ResponseFrame) => boolean,
+    options: WaitOptions = {},
+  ): Promise<ResponseFrame> {
+    const timeout = options.timeout ?? 2000;
+    if (this.closedError) {
+      return Promise.reject(this.closedError);
+    }
+    if (options.signal?.aborted) {
+      return Promise.reject(abortReason(options.signal));
+    }
+
+    return new Promise<ResponseFrame>((resolve, reject) => {
+      const settle = () => {
+        clearTimeout(timer);
+        options.signal?.removeEventListener("abort", onAbort);
+        const index = this.pending.indexOf(request);
+        if (index !== -1) this.pending.splice(index, 1);
+      };
+      const request: PendingRequest = {
+        match,
+        resolve: (frame) => {
+          settle();
+          resolve(frame);
+        },
+        reject: (reason) => {
+          settle();
+          reject(reason);
+        },
+      };
+      const onAbort = () => request.reject(abortReason(options.signal!));
+      const timer = setTimeout(
+        () =>
+          request.reject(
+            new Error(
+              options.timeoutMessage ??
+                `Timeout: No frame received within ${timeout}ms.`,
+            ),
+          ),
+        timeout,
+      );
+      options.signal?.addEventListener("abort", onAbort);
+      this.pending.push(request);
+    });
+  }
+
+  /**
+   * Waits for the response to a command.
+   * @param command The command whose response to wait for.
+   * @param options Timeout and cancellation.
+   * @throws Error if the device reports an error status.
+   */
+  public async waitForResponse(
+    command: EspCommand,
+    options: WaitOptions = {},
+  ): Promise<EspCommandPacket> {
+    const timeout = options.timeout ?? 2000;
+    let packet: EspCommandPacket | null;
+    try {
+      ({ packet } = await this.waitForFrame(
+        ({ packet }) => packet?.command === command,
+        {
+          timeoutMessage: `Timeout: No response received for command ${EspCommand[command]} within ${timeout}ms.`,
+          ...options,
+        },
+      ));
+    } catch (e) {
+      // The ROM answers every SYNC several times, so SYNC responses cannot
+      // be paired with requests. Any of them will do.
+      if (!this.closed && command !== EspCommand.SYNC) {
+        const expiries = this.abandoned.get(command) ?? [];
+        expiries.push(Date.now() + timeout);
+        this.abandoned.set(command, expiries);
+      }
+      throw e;
+    }
+    if (packet!.error > 0) {
+      throw new Error(
+        `Device returned error for ${EspCommand[command]}: ${packet!.getErrorMessage(packet!.error)}`,
+      );
+    }
+    return packet!;
+  }
+
+  /**
+   * Takes one outstanding abandoned request for a command, if any.
+   * @returns True if the response belongs to an abandoned request.
+   */
+  private claimAbandoned(command: EspCommand): boolean {
+    const now = Date.now();
+    const expiries = (this.abandoned.get(command) ?? []).filter(
+      (expiry) => expiry > now,
+    );
+    const claimed = expiries.shift() !== undefined;
+    if (expiries.length > 0) {
+      this.abandoned.set(command, expiries);
+    } else {
+      this.abandoned.delete(command);
+    }
+    return claimed;
+  }
+
+  /**
+   * Forgets the requests that timed out or were cancelled, for example once
+   * the device has been reset and will not answer them anymore.
+   */
+  public clearAbandoned() {
+    this.abandoned.clear();
+  }
+
+  /**
+   * Starts collecting unclaimed frames in order. Open the subscription before
+   * writing the command that makes the device stream data.
+   */
+  public subscribe(): FrameSubscription {
+    const subscription: { frames: Uint8Array[]; wake?: () => void } = {
+      frames: [],
+    };
+    this.subscriptions.add(subscription);
+
+    return {
+      next: async (timeout = 5000) => {
+        while (subscription.frames.length === 0) {
+          if (this.closedError) throw this.closedError;
+          if (!this.subscriptions.has(subscription)) {
+            throw new Error("Frame subscription is closed.");
+          }
+          await new Promise<void>((resolve, reject) => {
+            const timer = setTimeout(() => {
+              subscription.wake = undefined;
+              reject(
+                new Error(`Timeout: No frame received within ${timeout}ms.`),
+              );
+            }, timeout);
+            subscription.wake = () => {
+              clearTimeout(timer);
+              subscription.wake = undefined;
+              resolve();
+            };
+          });
+        }
+        return subscription.frames.shift()!;
+      },
+      close: () => {
+        this.subscriptions.delete(subscription);
+        subscription.wake?.();
+      },
+    };
+  }
+
+  /**
+   * Rejects every pending request without closing the stream. Responses that
+   * arrive for them later are reported as unsolicited rather than handed to
+   * the next request for the same command.
+   * @param reason The rejection reason.
+   */
+  public cancelAll(reason = new Error("Request cancelled.")) {
+    for (const request of [...this.pending]) {
+      request.reject(reason);
+    }
+  }
+}
+
+function abortReason(signal: AbortSignal): Error {
+  return signal.reason instanceof Error
+    ? signal.reason
+    : new DOMException("The operation was aborted.", "AbortError");
+}
@@ -0,0 +1,63 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect } from "vitest";
+import { parseSecurityInfo, SecurityInfoFlag } from "./security-info";
+
+describe("parseSecurityInfo", () => {
+  it("should parse the flags, key purposes, chip ID and ECO version", () => {
+    const payload = new Uint8Array(20);
+    const view = new DataView(payload.buffer);
+    view.setUint32(
+      0,
+      SecurityInfoFlag.SECURE_BOOT_EN | SecurityInfoFlag.SECURE_DOWNLOAD_ENABLE,
+      true,
+    );
+    payload[4] = 0b001;
+    payload.set([1, 2, 3, 4, 5, 9, 0], 5);
+    view.setUint32(12, 5, true);
+    view.setUint32(16, 3, true);
+
+    expect(parseSecurityInfo(payload)).toEqual({
+      flags: 0b101,
+      flashCryptCount: 1,
+      keyPurposes: [1, 2, 3, 4, 5, 9, 0],
+      chipId: 5,
+      ecoVersion: 3,
+      secureBootEnabled: true,
+      secureDownloadEnabled: true,
+      flashEncryptionEnabled: true,
+    });
+  });
+
+  it("should leave out the chip ID in the short ESP32-S2 response", () => {
+    const payload = new Uint8Array(12);
+    payload[4] = 0b011;
+
+    const info = parseSecurityInfo(payload);
+
+    expect(info.chipId).toBeNull();
+    expect(info.ecoVersion).toBeNull();
+    expect(info.flashEncryptionEnabled).toBe(false);
+    expect(info.secureDownloadEnabled).toBe(false);
+  });
+
+  it("should reject a truncated response", () => {
+    expect(() => parseSecurityInfo(new Uint8Array(8))).toThrow(
+      "Security info response is too short: 8 bytes.",
+    );
+  });
+});
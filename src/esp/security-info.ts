@@ -0,0 +1,87 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Bits of the flags word in the GET_SECURITY_INFO response.
+ */
+export enum SecurityInfoFlag {
+  SECURE_BOOT_EN = 1 << 0,
+  SECURE_BOOT_AGGRESSIVE_REVOKE = 1 << 1,
+  SECURE_DOWNLOAD_ENABLE = 1 << 2,
+  SECURE_BOOT_KEY_REVOKE0 = 1 << 3,
+  SECURE_BOOT_KEY_REVOKE1 = 1 << 4,
+  SECURE_BOOT_KEY_REVOKE2 = 1 << 5,
+  SOFT_DIS_JTAG = 1 << 6,
+  HARD_DIS_JTAG = 1 << 7,
+  DIS_USB = 1 << 8,
+  DIS_DOWNLOAD_DCACHE = 1 << 9,
+  DIS_DOWNLOAD_ICACHE = 1 << 10,
+}
+
+/**
+ * Decoded GET_SECURITY_INFO response.
+ */
+export interface SecurityInfo {
+  /** Raw flags word, see SecurityInfoFlag. */
+  flags: number;
+  /** The SPI_BOOT_CRYPT_CNT eFuse. */
+  flashCryptCount: number;
+  /** Purposes of the key blocks, one entry per key. */
+  keyPurposes: number[];
+  /** Chip ID. Null on the ESP32-S2, whose ROM does not report it. */
+  chipId: number | null;
+  /** ECO version of the ROM. Null on the ESP32-S2. */
+  ecoVersion: number | null;
+  secureBootEnabled: boolean;
+  /** The chip only accepts the limited command set of secure download mode. */
+  secureDownloadEnabled: boolean;
+  /** The flash encryption counter has an odd number of bits set. */
+  flashEncryptionEnabled: boolean;
+}
+
+/**
+ * Parses the payload of a GET_SECURITY_INFO response.
+ * @param payload The response data without the status bytes: flags (4),
+ * flash_crypt_cnt (1), key_purposes (7) and, except on the ESP32-S2,
+ * chip_id (4) and eco_version (4).
+ * @throws Error if the payload is too short.
+ */
+export function parseSecurityInfo(payload: Uint8Array): SecurityInfo {
+  if (payload.length < 12) {
+    throw new Error(
+      `Security info response is too short: ${payload.length} bytes.`,
+    );
+  }
+  const view = new DataView(payload.buffer, payload.byteOffset, payload.length);
+  const flags = view.getUint32(0, true);
+  const flashCryptCount = view.getUint8(4);
+  const hasChipId = payload.length >= 20;
+
+  let bits = 0;
+  for (let v = flashCryptCount; v; v &= v - 1) bits++;
+
+  return {
+    flags,
+    flashCryptCount,
+    keyPurposes: Array.from(payload.subarray(5, 12)),
+    chipId: hasChipId ? view.getUint32(12, true) : null,
+    ecoVersion: hasChipId ? view.getUint32(16, true) : null,
+    secureBootEnabled: (flags & SecurityInfoFlag.SECURE_BOOT_EN) !== 0,
+    secureDownloadEnabled:
+      (flags & SecurityInfoFlag.SECURE_DOWNLOAD_ENABLE) !== 0,
+    flashEncryptionEnabled: bits % 2 === 1,
+  };
+}
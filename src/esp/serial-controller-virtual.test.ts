@@ -0,0 +1,920 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import {
+  SerialController,
+  ChipFamily,
+  FlashImageOptions,
+  FlashProgress,
+  ReadFlashProgress,
+} from "./serial-controller";
+import { EspCommand, EspCommandPacket } from "./command";
+import { ESPImage } from "../image/image";
+import { Partition } from "../partition/partition";
+import { VirtualEspDevice } from "../transport/virtual-esp-device";
+import { FlashVerificationError, SecureDownloadModeError } from "./errors";
+import SparkMD5 from "spark-md5";
+
+const createPartition = (
+  offset: number,
+  length: number,
+  seed: number,
+): Partition => ({
+  offset,
+  filename: `partition-${offset.toString(16)}.bin`,
+  binary: new Uint8Array(length).map((_, i) => (i * 31 + seed) & 0xff),
+});
+
+// An image header with no segments, padded to the checksum byte.
+const createAppImage = (
+  chipId: number,
+  offset = 0x10000,
+  filename = "app.bin",
+): Partition => {
+  const binary = new Uint8Array(32);
+  binary[0] = 0xe9;
+  binary[12] = chipId;
+  binary[31] = 0xef;
+  return { offset, filename, binary };
+};
+
+describe("SerialController with a virtual device", () => {
+  let device: VirtualEspDevice;
+  let controller: SerialController;
+
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    device = new VirtualEspDevice({ chip: ChipFamily.ESP32C3 });
+    controller = new SerialController(device);
+    await controller.openPort();
+  });
+
+  afterEach(async () => {
+    await controller.disconnect();
+    vi.restoreAllMocks();
+  });
+
+  it("should flash an image end to end", async () => {
+    const image = new ESPImage();
+    image.addPartition(createPartition(0x0, 0x2345, 1));
+    image.addPartition(createPartition(0x8000, 0xc00, 2));
+    image.addPartition(createPartition(0x10000, 0x5000, 3));
+
+    await controller.flashImage(image);
+
+    expect(controller.connection.chip).toBe(ChipFamily.ESP32C3);
+    expect(device.receivedCommands).toContain(EspCommand.MEM_END);
+    for (const partition of image.partitions) {
+      expect(
+        device.flash.subarray(
+          partition.offset,
+          partition.offset + partition.binary.length,
+        ),
+      ).toEqual(partition.binary);
+    }
+  });
+
+  it("should send compressed data while the stub is running", async () => {
+    const progress: FlashProgress[] = [];
+    controller.addEventListener("flash-progress", (event) =>
+      progress.push((event as CustomEvent<FlashProgress>).detail),
+    );
+    const image = new ESPImage();
+    const app = createPartition(0x10000, 0x8000, 6);
+    image.addPartition(app);
+
+    await controller.flashImage(image);
+
+    expect(device.receivedCommands).toContain(EspCommand.FLASH_DEFL_DATA);
+    expect(device.receivedCommands).not.toContain(EspCommand.FLASH_DATA);
+    expect(device.flash.subarray(0x10000, 0x18000)).toEqual(app.binary);
+    const last = progress[progress.length - 1];
+    expect(last.bytesWritten).toBe(0x8000);
+    expect(last.totalBytes).toBe(0x8000);
+    expect(last.compressedBytesWritten).toBe(last.compressedTotalBytes);
+    expect(last.compressedTotalBytes).toBeLessThan(0x8000);
+  });
+
+  it("should send uncompressed data when compression is disabled", async () => {
+    const image = new ESPImage();
+    const app = createPartition(0x10000, 0x2000, 7);
+    image.addPartition(app);
+
+    await controller.flashImage(image, { compress: false });
+
+    expect(device.receivedCommands).toContain(EspCommand.FLASH_DATA);
+    expect(device.receivedCommands).not.toContain(EspCommand.FLASH_DEFL_DATA);
+    expect(device.flash.subarray(0x10000, 0x12000)).toEqual(app.binary);
+  });
+
+  it("should keep several blocks in flight before the first acknowledgement", async () => {
+    const sentAtFirstAck: number[] = [];
+    controller.addEventListener("flash-progress", () =>
+      sentAtFirstAck.push(
+        device.receivedCommands.filter((c) => c === EspCommand.FLASH_DATA)
+          .length,
+      ),
+    );
+    const image = new ESPImage();
+    const app = createPartition(0x10000, 0x5000, 10);
+    image.addPartition(app);
+
+    await controller.flashImage(image, { compress: false, maxInFlight: 3 });
+
+    expect(sentAtFirstAck[0]).toBe(3);
+    expect(sentAtFirstAck).toHaveLength(5);
+    expect(device.flash.subarray(0x10000, 0x15000)).toEqual(app.binary);
+  });
+
+  it("should write compressed blocks in order while pipelining", async () => {
+    const image = new ESPImage();
+    const app = createPartition(0x10000, 0x20000, 11);
+    image.addPartition(app);
+
+    await controller.flashImage(image, { maxInFlight: 4 });
+
+    expect(device.flash.subarray(0x10000, 0x30000)).toEqual(app.binary);
+  });
+
+  it("should fail a pipelined write when a block in flight is rejected", async () => {
+    device.injectFault({
+      type: "checksum-error",
+      command: EspCommand.FLASH_DATA,
+    });
+    const image = new ESPImage();
+    image.addPartition(createPartition(0x10000, 0x4000, 12));
+
+    await expect(
+      controller.flashImage(image, { compress: false, maxInFlight: 3 }),
+    ).rejects.toThrow(
+      "Device returned error for FLASH_DATA: Invalid CRC in message",
+    );
+  });
+
+  it("should report throughput and ETA with progress", async () => {
+    const progress: FlashProgress[] = [];
+    controller.addEventListener("flash-progress", (event) =>
+      progress.push((event as CustomEvent<FlashProgress>).detail),
+    );
+    const imageProgress: FlashProgress[] = [];
+    controller.addEventListener("flash-image-progress", (event) =>
+      imageProgress.push((event as CustomEvent<FlashProgress>).detail),
+    );
+    const image = new ESPImage();
+    image.addPartition(createPartition(0x10000, 0x3000, 13));
+
+    await controller.flashImage(image, { compress: false });
+
+    for (const detail of [...progress, ...imageProgress]) {
+      expect(detail.bytesPerSecond).toBeGreaterThan(0);
+      expect(detail.etaSeconds).toBeGreaterThanOrEqual(0);
+    }
+    expect(progress[0].etaSeconds).toBeGreaterThan(0);
+    expect(progress[progress.length - 1].etaSeconds).toBe(0);
+    expect(imageProgress[imageProgress.length - 1].etaSeconds).toBe(0);
+  });
+
+  describe("image chip check", () => {
+    it("should refuse an image built for another chip", async () => {
+      const image = new ESPImage();
+      image.addPartition(createAppImage(9));
+
+      await expect(controller.flashImage(image)).rejects.toThrow(
+        "app.bin is built for ESP32-S3, but the device is ESP32-C3.",
+      );
+      expect(device.receivedCommands).not.toContain(
+        EspCommand.FLASH_DEFL_BEGIN,
+      );
+    });
+
+    it("should flash an image built for the connected chip", async () => {
+      const image = new ESPImage();
+      const app = createAppImage(5);
+      image.addPartition(app);
+
+      await controller.flashImage(image);
+
+      expect(device.flash.subarray(0x10000, 0x10020)).toEqual(app.binary);
+    });
+  });
+
+  it("should read the app description of the app on the device", async () => {
+    const app = createAppImage(5);
+    const binary = new Uint8Array(0x200);
+    binary.set(app.binary.subarray(0, 24));
+    binary[1] = 1;
+    new DataView(binary.buffer).setUint32(32, 0xabcd5432, true);
+    binary.set(new TextEncoder().encode("1.0.0"), 48);
+    binary.set(new TextEncoder().encode("blink"), 80);
+    const image = new ESPImage();
+    image.addPartition({ ...app, binary });
+
+    await controller.flashImage(image);
+    const description = await controller.readAppDescription(0x10000);
+
+    expect(description.projectName).toBe("blink");
+    expect(description.version).toBe("1.0.0");
+  });
+
+  describe("bootloader flash parameters", () => {
+    it("should patch the bootloader header before writing it", async () => {
+      const image = new ESPImage();
+      const bootloader = createAppImage(5, 0x0, "bootloader.bin");
+      bootloader.binary[2] = 0x0; // QIO
+      bootloader.binary[3] = 0x1f; // 2MB, 80MHz
+      image.addPartition(bootloader);
+      image.addPartition(createAppImage(5));
+
+      await controller.flashImage(image, {
+        flashMode: "dio",
+        flashFreq: "40m",
+        flashSize: "detect",
+      });
+
+      expect(device.flash[2]).toBe(0x2);
+      // The virtual flash is 4MB.
+      expect(device.flash[3]).toBe(0x20);
+      expect(device.flash[31]).toBe(0xef);
+      expect(bootloader.binary[3]).toBe(0x1f);
+      expect(device.flash[0x10003]).toBe(0x0);
+    });
+
+    it("should keep the mode and frequency when only the size changes", async () => {
+      const image = new ESPImage();
+      const bootloader = createAppImage(5, 0x0, "bootloader.bin");
+      bootloader.binary[2] = 0x3; // DOUT
+      bootloader.binary[3] = 0x1f; // 2MB, 80MHz
+      image.addPartition(bootloader);
+
+      await controller.flashImage(image, { flashSize: "8MB" });
+
+      expect(device.flash[2]).toBe(0x3);
+      expect(device.flash[3]).toBe(0x3f);
+    });
+
+    it("should treat explicit keep values like omitted ones", async () => {
+      const image = new ESPImage();
+      const bootloader = createAppImage(5, 0x0, "bootloader.bin");
+      bootloader.binary[2] = 0x2; // DIO
+      bootloader.binary[3] = 0x1f; // 2MB, 80MHz
+      image.addPartition(bootloader);
+
+      await controller.flashImage(image, {
+        flashMode: "keep",
+        flashFreq: "keep",
+        flashSize: "4MB",
+      });
+
+      expect(device.flash[2]).toBe(0x2);
+      expect(device.flash[3]).toBe(0x2f);
+    });
+
+    it("should flash the bootloader as built by default", async () => {
+      const image = new ESPImage();
+      const bootloader = createAppImage(5, 0x0, "bootloader.bin");
+      bootloader.binary[3] = 0x1f;
+      image.addPartition(bootloader);
+
+      await controller.flashImage(image);
+
+      expect(device.flash.subarray(0, 32)).toEqual(bootloader.binary);
+    });
+
+    it("should reject a frequency the chip does not support", async () => {
+      const image = new ESPImage();
+      image.addPartition(createAppImage(5, 0x0, "bootloader.bin"));
+
+      await expect(
+        controller.flashImage(image, { flashFreq: "26m" }),
+      ).rejects.toThrow(
+        "ESP32-C3 does not support a flash frequency of 26m. Use one of: 80m, 40m, 20m.",
+      );
+    });
+  });
+
+  it("should dispatch progress up to 100%", async () => {
+    const progress: number[] = [];
+    controller.addEventListener("flash-image-progress", (event) =>
+      progress.push((event as CustomEvent).detail.progress),
+    );
+    const image = new ESPImage();
+    image.addPartition(createPartition(0x10000, 0x3000, 4));
+
+    await controller.flashImage(image);
+
+    expect(progress.length).toBeGreaterThan(1);
+    expect(progress[progress.length - 1]).toBe(100);
+  });
+
+  it("should sync when the first SYNC packets are dropped", async () => {
+    device.injectFault({ type: "drop", command: EspCommand.SYNC, count: 2 });
+
+    await expect(controller.sync()).resolves.toBe(true);
+    expect(
+      device.receivedCommands.filter((c) => c === EspCommand.SYNC).length,
+    ).toBe(3);
+  });
+
+  it("should fail a flash write that is answered with a checksum error", async () => {
+    device.injectFault({
+      type: "checksum-error",
+      command: EspCommand.FLASH_DEFL_DATA,
+    });
+    const image = new ESPImage();
+    image.addPartition(createPartition(0x10000, 0x1000, 5));
+
+    await expect(controller.flashImage(image)).rejects.toThrow(
+      "Device returned error for FLASH_DEFL_DATA: Invalid CRC in message",
+    );
+  });
+
+  it("should stop a pipelined write as soon as the port fails", async () => {
+    const write = controller.writeToConnection.bind(controller);
+    let blocks = 0;
+    vi.spyOn(controller, "writeToConnection").mockImplementation(
+      async (data) => {
+        if (data[2] === EspCommand.FLASH_DATA && ++blocks === 2) {
+          throw new Error("The port is broken.");
+        }
+        return write(data);
+      },
+    );
+    const image = new ESPImage();
+    image.addPartition(createPartition(0x10000, 0x8000, 6));
+
+    const startedAt = Date.now();
+    await expect(
+      controller.flashImage(image, { compress: false }),
+    ).rejects.toThrow("The port is broken.");
+    expect(Date.now() - startedAt).toBeLessThan(2000);
+  });
+
+  describe("verification", () => {
+    it("should read the flash MD5 as hex text from the ROM", async () => {
+      device.flash.fill(0x00, 0, 0x1000);
+      await controller.sync();
+
+      await expect(controller.readFlashMd5(0, 0x1000)).resolves.toBe(
+        SparkMD5.ArrayBuffer.hash(new ArrayBuffer(0x1000)),
+      );
+    });
+
+    it("should verify each partition after writing it", async () => {
+      const image = new ESPImage();
+      image.addPartition(createPartition(0x0, 0x1800, 8));
+      image.addPartition(createPartition(0x10000, 0x3000, 9));
+
+      await controller.flashImage(image);
+
+      expect(
+        device.receivedCommands.filter((c) => c === EspCommand.SPI_FLASH_MD5)
+          .length,
+      ).toBe(2);
+    });
+
+    it("should throw a FlashVerificationError when the flash does not match", async () => {
+      const app = createPartition(0x10000, 0x2000, 10);
+      controller.addEventListener("flash-progress", (event) => {
+        if ((event as CustomEvent<FlashProgress>).detail.progress === 100) {
+          device.flash[0x10010] ^= 0xff;
+        }
+      });
+      const image = new ESPImage();
+      image.addPartition(app);
+
+      const error = await controller.flashImage(image).catch((e) => e);
+      expect(error).toBeInstanceOf(FlashVerificationError);
+      expect(error.partition).toBe(app);
+      expect(error.offset).toBe(0x10000);
+    });
+
+    it("should skip verification when disabled", async () => {
+      const image = new ESPImage();
+      image.addPartition(createPartition(0x10000, 0x1000, 11));
+
+      await controller.flashImage(image, { verify: false });
+
+      expect(device.receivedCommands).not.toContain(EspCommand.SPI_FLASH_MD5);
+    });
+  });
+
+  describe("skipping unchanged partitions", () => {
+    it("should only write partitions that differ from the device", async () => {
+      const bootloader = createPartition(0x0, 0x1800, 12);
+      const app = createPartition(0x10000, 0x3000, 13);
+      device.flash.set(bootloader.binary, bootloader.offset);
+      const image = new ESPImage();
+      image.addPartition(bootloader);
+      image.addPartition(app);
+      const progress: FlashProgress[] = [];
+      controller.addEventListener("flash-progress", (event) =>
+        progress.push((event as CustomEvent<FlashProgress>).detail),
+      );
+
+      await controller.flashImage(image, { skipUnchanged: true });
+
+      const skipped = progress.filter((p) => p.skipped);
+      expect(skipped).toHaveLength(1);
+      expect(skipped[0].partition).toBe(bootloader);
+      expect(skipped[0].progress).toBe(100);
+      expect(progress.some((p) => p.partition === app && !p.skipped)).toBe(
+        true,
+      );
+      expect(device.flash.subarray(0x10000, 0x13000)).toEqual(app.binary);
+      // One comparison for each partition and one verification for the app.
+      expect(
+        device.receivedCommands.filter((c) => c === EspCommand.SPI_FLASH_MD5)
+          .length,
+      ).toBe(3);
+    });
+
+    it("should report skipped partitions in the image progress", async () => {
+      const app = createPartition(0x10000, 0x1000, 14);
+      device.flash.set(app.binary, app.offset);
+      const image = new ESPImage();
+      image.addPartition(app);
+      const details: { skipped?: boolean }[] = [];
+      controller.addEventListener("flash-image-progress", (event) =>
+        details.push((event as CustomEvent).detail),
+      );
+
+      await controller.flashImage(image, { skipUnchanged: true });
+
+      expect(details[0].skipped).toBe(true);
+      expect(device.receivedCommands).not.toContain(
+        EspCommand.FLASH_DEFL_BEGIN,
+      );
+    });
+  });
+
+  describe("readFlash", () => {
+    it("should read a region of flash through the stub", async () => {
+      const contents = new Uint8Array(0x2800).map((_, i) => (i * 7) & 0xff);
+      device.flash.set(contents, 0x20000);
+      const progress: ReadFlashProgress[] = [];
+      controller.addEventListener("read-progress", (event) =>
+        progress.push((event as CustomEvent<ReadFlashProgress>).detail),
+      );
+
+      const data = await controller.readFlash(0x20000, contents.length);
+
+      expect(data).toEqual(contents);
+      expect(device.stubRunning).toBe(true);
+      expect(progress).toHaveLength(3);
+      expect(progress[progress.length - 1]).toEqual({
+        progress: 100,
+        offset: 0x20000,
+        bytesRead: 0x2800,
+        totalBytes: 0x2800,
+      });
+    });
+
+    it("should read back a flashed image", async () => {
+      const app = createPartition(0x10000, 0x1400, 15);
+      const image = new ESPImage();
+      image.addPartition(app);
+      await controller.flashImage(image);
+
+      await expect(
+        controller.readFlash(app.offset, app.binary.length),
+      ).resolves.toEqual(app.binary);
+    });
+
+    it("should report the local digest as expected on an MD5 mismatch", async () => {
+      const contents = new Uint8Array(0x100).fill(0x5a);
+      device.flash.set(contents, 0x20000);
+      const local = SparkMD5.ArrayBuffer.hash(contents.slice().buffer);
+      // The device hashes the data it sent before the controller does.
+      vi.spyOn(SparkMD5.ArrayBuffer, "hash").mockReturnValueOnce(
+        "00".repeat(16),
+      );
+
+      await expect(
+        controller.readFlash(0x20000, contents.length),
+      ).rejects.toThrow(
+        `MD5 mismatch after reading flash: expected ${local}, got ${"00".repeat(16)}.`,
+      );
+    });
+  });
+
+  describe("erasing", () => {
+    it("should erase a sector-aligned region", async () => {
+      device.flash.fill(0x00);
+
+      await controller.eraseRegion(0x1000, 0x2000);
+
+      expect(device.flash[0x0fff]).toBe(0x00);
+      expect(
+        device.flash.subarray(0x1000, 0x3000).every((b) => b === 0xff),
+      ).toBe(true);
+      expect(device.flash[0x3000]).toBe(0x00);
+    });
+
+    it("should reject unaligned regions before talking to the device", async () => {
+      await expect(controller.eraseRegion(0x800, 0x1000)).rejects.toThrow(
+        "not aligned",
+      );
+      await expect(controller.eraseRegion(0x1000, 0x1800)).rejects.toThrow(
+        "not a multiple",
+      );
+      expect(device.receivedCommands).toHaveLength(0);
+    });
+
+    it("should erase the whole chip", async () => {
+      device.flash.fill(0x00);
+
+      await controller.eraseFlash();
+
+      expect(device.flash.every((b) => b === 0xff)).toBe(true);
+    });
+
+    it("should scale the chip erase timeout with the flash size", async () => {
+      await controller.disconnect();
+      device = new VirtualEspDevice({
+        chip: ChipFamily.ESP32C3,
+        flashSize: 16 * 1024 * 1024,
+      });
+      controller = new SerialController(device);
+      await controller.openPort();
+      const sendCommand = vi.spyOn(
+        controller as unknown as {
+          sendCommand(
+            packet: EspCommandPacket,
+            timeout?: number,
+          ): Promise<EspCommandPacket>;
+        },
+        "sendCommand",
+      );
+
+      await controller.eraseFlash();
+
+      expect(controller.connection.flash?.size).toBe(16 * 1024 * 1024);
+      expect(sendCommand).toHaveBeenCalledWith(
+        expect.objectContaining({ command: EspCommand.ERASE_FLASH }),
+        16 * 30000,
+      );
+    });
+
+    it("should erase everything before writing when eraseAll is set", async () => {
+      device.flash.fill(0x00);
+      const app = createPartition(0x10000, 0x1000, 16);
+      const image = new ESPImage();
+      image.addPartition(app);
+
+      await controller.flashImage(image, { eraseAll: true });
+
+      expect(device.receivedCommands).toContain(EspCommand.ERASE_FLASH);
+      expect(device.flash[0x0]).toBe(0xff);
+      expect(device.flash.subarray(0x10000, 0x11000)).toEqual(app.binary);
+    });
+  });
+
+  describe("baud rate", () => {
+    it("should switch to a higher baud rate once the stub runs", async () => {
+      await controller.readFlash(0, 0x10);
+
+      await expect(controller.changeBaudRate(921600)).resolves.toBe(true);
+
+      expect(controller.connection.baudRate).toBe(921600);
+      expect(device.baudRate).toBe(921600);
+      await expect(controller.readFlash(0, 0x1000)).resolves.toHaveLength(
+        0x1000,
+      );
+    });
+
+    it("should flash at the requested rate and restore the original rate", async () => {
+      const app = createPartition(0x10000, 0x2000, 17);
+      const image = new ESPImage();
+      image.addPartition(app);
+
+      await controller.flashImage(image, { baudRate: 921600 });
+
+      expect(device.receivedCommands).toContain(EspCommand.CHANGE_BAUDRATE);
+      expect(device.flash.subarray(0x10000, 0x12000)).toEqual(app.binary);
+      expect(controller.connection.baudRate).toBe(115200);
+    });
+
+    it("should fall back when the device does not answer at the new rate", async () => {
+      vi.spyOn(console, "warn").mockImplementation(() => {});
+      await controller.disconnect();
+      device = new VirtualEspDevice({
+        chip: ChipFamily.ESP32C3,
+        maxBaudRate: 921600,
+      });
+      controller = new SerialController(device);
+      await controller.openPort();
+      const app = createPartition(0x10000, 0x1000, 18);
+      const image = new ESPImage();
+      image.addPartition(app);
+
+      await controller.flashImage(image, { baudRate: 2000000 });
+
+      expect(device.flash.subarray(0x10000, 0x11000)).toEqual(app.binary);
+      expect(
+        device.receivedCommands.filter((c) => c === EspCommand.MEM_END).length,
+      ).toBe(2);
+    });
+  });
+
+  it("should refuse an image built for a different chip", async () => {
+    const image = new ESPImage(ChipFamily.ESP32S3);
+    image.addPartition(createPartition(0x10000, 0x1000, 20));
+
+    await expect(controller.flashImage(image)).rejects.toThrow(
+      "The image is for ESP32-S3, but the device is ESP32-C3.",
+    );
+  });
+
+  describe("chip detection", () => {
+    const connect = async (chip: ChipFamily) => {
+      await controller.disconnect();
+      device = new VirtualEspDevice({ chip });
+      controller = new SerialController(device);
+      await controller.openPort();
+      await controller.sync();
+    };
+
+    it("should detect an ESP32-C2 by its magic value", async () => {
+      await connect(ChipFamily.ESP32C2);
+      await expect(controller.detectChip()).resolves.toBe(ChipFamily.ESP32C2);
+    });
+
+    it("should detect an alternative magic value of the same family", async () => {
+      await connect(ChipFamily.ESP32H2);
+      device.registers.set(0x40001000, 0xd7b73e80);
+      await expect(controller.detectChip()).resolves.toBe(ChipFamily.ESP32H2);
+    });
+
+    it("should fall back to the security info chip ID", async () => {
+      await connect(ChipFamily.ESP32C5);
+      device.registers.set(0x40001000, 0x12345678);
+
+      await expect(controller.detectChip()).resolves.toBe(ChipFamily.ESP32C5);
+      expect(device.receivedCommands).toContain(EspCommand.GET_SECURITY_INFO);
+    });
+
+    it.each(
+      [
+        ChipFamily.ESP32C2,
+        ChipFamily.ESP32C5,
+        ChipFamily.ESP32C6,
+        ChipFamily.ESP32C61,
+        ChipFamily.ESP32P4,
+      ].map((chip) => [ChipFamily[chip], chip] as const),
+    )("should flash an %s with its bundled stub", async (_name, chip) => {
+      await connect(chip);
+      const app = createPartition(0x10000, 0x1000, 19);
+      const image = new ESPImage();
+      image.addPartition(app);
+
+      await controller.flashImage(image);
+
+      expect(controller.connection.chip).toBe(chip);
+      expect(device.flash.subarray(0x10000, 0x11000)).toEqual(app.binary);
+    });
+  });
+
+  describe("flash detection", () => {
+    it("should read the JEDEC ID and flash size", async () => {
+      await controller.disconnect();
+      device = new VirtualEspDevice({
+        chip: ChipFamily.ESP32S3,
+        flashSize: 16 * 1024 * 1024,
+      });
+      controller = new SerialController(device);
+      await controller.openPort();
+      await controller.readFlash(0, 0x10);
+
+      expect(controller.connection.flash).toEqual({
+        manufacturer: 0xef,
+        manufacturerName: "Winbond",
+        deviceId: 0x4018,
+        size: 16 * 1024 * 1024,
+      });
+    });
+
+    it("should refuse to detect the flash before the chip", async () => {
+      await expect(controller.detectFlash()).rejects.toThrow(
+        "Detecting the flash needs the chip type. Call detectChip() first.",
+      );
+      expect(device.receivedCommands).toHaveLength(0);
+    });
+
+    it("should reject partitions past the end of the flash", async () => {
+      const image = new ESPImage();
+      image.addPartition(createPartition(0x3ff000, 0x2000, 21));
+
+      await expect(controller.flashImage(image)).rejects.toThrow(
+        "partition-3ff000.bin ends at 0x401000, past the end of the 4MB flash.",
+      );
+      expect(device.receivedCommands).not.toContain(
+        EspCommand.FLASH_DEFL_BEGIN,
+      );
+    });
+  });
+
+  describe("getDeviceInfo", () => {
+    it("should read the MAC, revision and package from the eFuses", async () => {
+      // ESP32-C3 eFuse block 1: MAC in words 0-1, revision and package after.
+      device.registers.set(0x60008844, 0x12345678);
+      device.registers.set(0x60008848, 0x00009abc);
+      device.registers.set(0x60008850, (1 << 21) | (3 << 18));
+      device.registers.set(0x60008858, 1 << 24);
+      await controller.sync();
+
+      const info = await controller.getDeviceInfo();
+
+      expect(info).toEqual({
+        chip: ChipFamily.ESP32C3,
+        chipName: "ESP32-C3",
+        mac: "9a:bc:12:34:56:78",
+        revision: { major: 1, minor: 3 },
+        packageVersion: 1,
+        packageName: "ESP8685 (QFN28)",
+        crystalFrequency: 40,
+      });
+      expect(controller.connection.deviceInfo).toBe(info);
+    });
+
+    it("should cache the result on the connection", async () => {
+      await controller.sync();
+      const first = await controller.getDeviceInfo();
+      const reads = device.receivedCommands.length;
+
+      await expect(controller.getDeviceInfo()).resolves.toBe(first);
+      expect(device.receivedCommands).toHaveLength(reads);
+    });
+  });
+
+  describe("readEfuses", () => {
+    it("should decode the eFuses without writing any register", async () => {
+      // ESP32-C3 BLOCK0: DIS_PAD_JTAG and DIS_USB_JTAG, then SECURE_BOOT_EN.
+      device.registers.set(0x60008830, (1 << 9) | (1 << 19));
+      device.registers.set(0x60008838, 1 << 20);
+      await controller.sync();
+
+      const summary = await controller.readEfuses();
+
+      expect(summary.chip).toBe(ChipFamily.ESP32C3);
+      expect(summary.jtagDisabled).toBe(true);
+      expect(summary.secureBootEnabled).toBe(true);
+      expect(summary.flashEncryptionEnabled).toBe(false);
+      expect(device.receivedCommands).not.toContain(EspCommand.WRITE_REG);
+    });
+  });
+
+  describe("secure download mode", () => {
+    beforeEach(async () => {
+      await controller.disconnect();
+      device = new VirtualEspDevice({
+        chip: ChipFamily.ESP32S3,
+        secureDownloadMode: true,
+      });
+      controller = new SerialController(device);
+      await controller.openPort();
+      await controller.sync();
+    });
+
+    it("should detect the chip and flag secure download mode", async () => {
+      await expect(controller.detectChip()).resolves.toBe(ChipFamily.ESP32S3);
+      expect(controller.connection.secureDownloadMode).toBe(true);
+
+      const info = await controller.getSecurityInfo();
+      expect(info.secureDownloadEnabled).toBe(true);
+      expect(info.chipId).toBe(9);
+    });
+
+    it("should flash through the ROM loader without the stub", async () => {
+      const app = createPartition(0x10000, 0x2345, 23);
+      const image = new ESPImage();
+      image.addPartition(app);
+
+      await controller.flashImage(image);
+
+      expect(device.receivedCommands).not.toContain(EspCommand.MEM_BEGIN);
+      expect(device.receivedCommands).not.toContain(EspCommand.SPI_FLASH_MD5);
+      expect(device.flash.subarray(0x10000, 0x10000 + 0x2345)).toEqual(
+        app.binary,
+      );
+    });
+
+    it("should wait for the ROM to erase the region at FLASH_BEGIN", async () => {
+      await controller.disconnect();
+      device = new VirtualEspDevice({
+        chip: ChipFamily.ESP32S3,
+        secureDownloadMode: true,
+        romEraseTimePerMb: 20000,
+      });
+      controller = new SerialController(device);
+      await controller.openPort();
+      await controller.sync();
+      const app = createPartition(0x10000, 0x20000, 26);
+      const image = new ESPImage();
+      image.addPartition(app);
+
+      await controller.flashImage(image);
+
+      expect(device.flash.subarray(0x10000, 0x10000 + 0x20000)).toEqual(
+        app.binary,
+      );
+    }, 15000);
+
+    it("should reject operations the ROM refuses", async () => {
+      await controller.detectChip();
+      const image = new ESPImage();
+      image.addPartition(createPartition(0x10000, 0x1000, 24));
+
+      await expect(controller.readRegister(0x60008844)).rejects.toThrow(
+        SecureDownloadModeError,
+      );
+      await expect(controller.readFlash(0, 0x100)).rejects.toThrow(
+        "Reading flash is not available in secure download mode.",
+      );
+      await expect(
+        controller.flashImage(image, { verify: true }),
+      ).rejects.toThrow(
+        "Verifying written data is not available in secure download mode.",
+      );
+    });
+  });
+
+  describe("after flashing", () => {
+    const waitForLine = async (
+      logStream: AsyncGenerator<string | undefined>,
+      text: string,
+    ) => {
+      for await (const line of logStream) {
+        if (line?.includes(text)) return line;
+      }
+    };
+
+    const flashApp = async (options: FlashImageOptions = {}) => {
+      const image = new ESPImage();
+      image.addPartition(createPartition(0x10000, 0x1000, 25));
+      await controller.flashImage(image, options);
+    };
+
+    it("should hard reset into the app by default", async () => {
+      const logStream = controller.createLogStreamReader()();
+
+      await flashApp();
+
+      await expect(
+        waitForLine(logStream, "SPI_FAST_FLASH_BOOT"),
+      ).resolves.toBeDefined();
+      expect(controller.connection.synced).toBe(false);
+    });
+
+    it("should soft reset through RUN_USER_CODE while the stub runs", async () => {
+      const logStream = controller.createLogStreamReader()();
+
+      await flashApp({ after: "soft-reset" });
+
+      expect(device.receivedCommands).toContain(EspCommand.RUN_USER_CODE);
+      await expect(
+        waitForLine(logStream, "SPI_FAST_FLASH_BOOT"),
+      ).resolves.toBeDefined();
+      expect(controller.connection.stubLoaded).toBe(false);
+    });
+
+    it("should soft reset through FLASH_END on the ROM loader", async () => {
+      await controller.sync();
+      await controller.detectChip();
+
+      await controller.softReset();
+
+      expect(device.receivedCommands.slice(-2)).toEqual([
+        EspCommand.FLASH_BEGIN,
+        EspCommand.FLASH_END,
+      ]);
+      expect(device.stubRunning).toBe(false);
+      await expect(controller.sync()).resolves.toBe(true);
+    });
+
+    it("should stay in the loader when asked to", async () => {
+      await flashApp({ after: "stay-in-loader" });
+      const commands = device.receivedCommands.length;
+
+      await controller.readFlash(0x10000, 0x100);
+
+      expect(controller.connection.stubLoaded).toBe(true);
+      expect(device.receivedCommands.slice(commands)).not.toContain(
+        EspCommand.SYNC,
+      );
+    });
+  });
+});
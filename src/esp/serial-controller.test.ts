@@ -16,9 +16,12 @@
 
 import { describe, it, expect, vi, beforeEach, afterEach, Mock } from "vitest";
 import { SerialController, ChipFamily, Stub } from "./serial-controller";
+import { WriteTimeoutError } from "./errors";
 import { EspCommand, EspCommandPacket } from "./command";
 import { ESPImage } from "../image/image";
 import { Partition } from "../partition/partition";
+import { SerialTransport } from "../transport/transport";
+import { WebSerialTransport } from "../transport/web-serial-transport";
 
 // Partially mock the common module to keep original slipEncode
 vi.mock("../utils/common", async (importOriginal) => {
@@ -34,6 +37,20 @@ vi.mock("../utils/common", async (importOriginal) => {
   };
 });
 
+/** The private members of SerialController that the tests spy on. */
+interface SerialControllerInternals {
+  getStubForChip(chip: ChipFamily): Promise<Stub>;
+  uploadStub(stub: Stub): Promise<void>;
+  readResponse(
+    expectedCommand: EspCommand,
+    timeout?: number,
+    signal?: AbortSignal,
+  ): Promise<EspCommandPacket>;
+}
+
+const internals = (controller: SerialController) =>
+  controller as unknown as SerialControllerInternals;
+
 const createResponsePacket = (
   command: EspCommand,
   value = 0,
@@ -64,9 +81,7 @@ const slipEncode = (packet: Uint8Array): Uint8Array => {
   return new Uint8Array(encoded);
 };
 
-
-
-const createMockSerialPort = () => {
+const createMockTransport = () => {
   let streamController: ReadableStreamDefaultController<Uint8Array>;
   const readable = new ReadableStream<Uint8Array>({
     start(controller) {
@@ -79,7 +94,7 @@ const createMockSerialPort = () => {
     releaseLock: vi.fn(),
   };
 
-  return {
+  return Object.assign(new EventTarget(), {
     open: vi.fn().mockResolvedValue(undefined),
     setSignals: vi.fn().mockResolvedValue(undefined),
     close: vi.fn().mockResolvedValue(undefined),
@@ -98,13 +113,13 @@ const createMockSerialPort = () => {
       }
     },
     _getWriter: () => mockWriter,
-  };
+  });
 };
 
-type MockSerialPort = ReturnType<typeof createMockSerialPort>;
+type MockTransport = ReturnType<typeof createMockTransport>;
 
 describe("SerialController", () => {
-  let mockPort: MockSerialPort;
+  let mockPort: MockTransport;
   let serialController: SerialController;
 
   beforeEach(() => {
@@ -113,11 +128,12 @@ describe("SerialController", () => {
     vi.spyOn(
       SerialController.prototype,
       "createLogStreamReader",
-    ).mockReturnValue(async function* () { });
+    ).mockReturnValue(async function* () {});
 
-    mockPort = createMockSerialPort();
-    serialController = new SerialController();
-    serialController.connection.port = mockPort as unknown as SerialPort;
+    mockPort = createMockTransport();
+    serialController = new SerialController(
+      mockPort as unknown as SerialTransport,
+    );
   });
 
   afterEach(() => {
@@ -130,21 +146,31 @@ describe("SerialController", () => {
     it("should initialize with a default serial connection object", () => {
       const newController = new SerialController();
       expect(newController.connection).toEqual({
-        port: undefined,
+        transport: undefined,
         connected: false,
         synced: false,
         chip: null,
         readable: null,
         writable: null,
         abortStreamController: undefined,
-        commandResponseStream: undefined,
+        responseDispatcher: undefined,
+        deviceLost: false,
+        stubLoaded: false,
+        baudRate: 115200,
+        flash: null,
+        deviceInfo: null,
+        secureDownloadMode: false,
       });
     });
+
+    it("should use the transport passed to the constructor", () => {
+      expect(serialController.connection.transport).toBe(mockPort);
+    });
   });
 
   describe("requestPort", () => {
     it("should request a port and reset sync state", async () => {
-      const mockNewPort = createMockSerialPort();
+      const mockNewPort = { getInfo: vi.fn().mockReturnValue({}) };
       vi.stubGlobal("navigator", {
         serial: {
           requestPort: vi.fn().mockResolvedValue(mockNewPort),
@@ -157,7 +183,9 @@ describe("SerialController", () => {
       await serialController.requestPort();
 
       expect(navigator.serial.requestPort).toHaveBeenCalledOnce();
-      expect(serialController.connection.port).toBe(mockNewPort);
+      const transport = serialController.connection.transport;
+      expect(transport).toBeInstanceOf(WebSerialTransport);
+      expect((transport as WebSerialTransport).port).toBe(mockNewPort);
       expect(serialController.connection.synced).toBe(false);
       expect(serialController.connection.chip).toBe(null);
     });
@@ -173,14 +201,27 @@ describe("SerialController", () => {
       expect(serialController.connection.connected).toBe(true);
       expect(serialController.connection.readable).toBeDefined();
       expect(serialController.connection.writable).toBeDefined();
-      expect(serialController.connection.commandResponseStream).toBeDefined();
+      expect(serialController.connection.responseDispatcher).toBeDefined();
     });
 
     it("should not do anything if port is not set", async () => {
-      serialController.connection.port = undefined;
+      serialController.connection.transport = undefined;
       await serialController.openPort();
       expect(mockPort.open).not.toHaveBeenCalled();
     });
+
+    it("should abort the streams when the transport reports a disconnect", async () => {
+      await serialController.openPort();
+      const abortSpy = vi.spyOn(
+        serialController.connection.abortStreamController!,
+        "abort",
+      );
+
+      mockPort.dispatchEvent(new Event("disconnect"));
+
+      expect(serialController.connection.deviceLost).toBe(true);
+      expect(abortSpy).toHaveBeenCalledOnce();
+    });
   });
 
   describe("disconnect", () => {
@@ -196,7 +237,7 @@ describe("SerialController", () => {
 
       expect(abortSpy).toHaveBeenCalledOnce();
       expect(mockPort.close).toHaveBeenCalledOnce();
-      expect(serialController.connection.port).toBe(mockPort);
+      expect(serialController.connection.transport).toBe(mockPort);
       expect(serialController.connection.connected).toBe(false);
       expect(serialController.connection.synced).toBe(false);
     });
@@ -217,21 +258,40 @@ describe("SerialController", () => {
       vi.useRealTimers();
     });
 
-    it("should send the correct sequence of signals to reset the device", async () => {
+    it("should send the classic sequence of signals by default", async () => {
       const resetPromise = serialController.sendResetPulse();
       await vi.runAllTimersAsync();
       await resetPromise;
 
       const setSignalsCalls = mockPort.setSignals.mock.calls;
-      expect(setSignalsCalls.length).toBe(2);
-      expect(setSignalsCalls[0][0]).toEqual({
-        dataTerminalReady: false,
-        requestToSend: true,
-      });
-      expect(setSignalsCalls[1][0]).toEqual({
-        dataTerminalReady: true,
-        requestToSend: false,
-      });
+      expect(setSignalsCalls.map((call) => call[0])).toEqual([
+        { dataTerminalReady: false },
+        { requestToSend: true },
+        { dataTerminalReady: true },
+        { requestToSend: false },
+        { dataTerminalReady: false },
+      ]);
+    });
+
+    it("should run a custom sequence from the reset options", async () => {
+      serialController.resetOptions.before = "U1,1|W0.2|U0,0";
+      const resetPromise = serialController.sendResetPulse();
+      await vi.runAllTimersAsync();
+      await resetPromise;
+
+      expect(mockPort.setSignals.mock.calls.map((call) => call[0])).toEqual([
+        { dataTerminalReady: true, requestToSend: true },
+        { dataTerminalReady: false, requestToSend: false },
+      ]);
+    });
+
+    it("should leave the lines and sync state alone for no-reset", async () => {
+      serialController.connection.synced = true;
+
+      await serialController.sendResetPulse("no-reset");
+
+      expect(mockPort.setSignals).not.toHaveBeenCalled();
+      expect(serialController.connection.synced).toBe(true);
     });
   });
 
@@ -246,6 +306,57 @@ describe("SerialController", () => {
       expect(writer.write).toHaveBeenCalledWith(data);
       expect(writer.releaseLock).toHaveBeenCalled();
     });
+
+    it("should pass write errors on to the caller", async () => {
+      await serialController.openPort();
+      const writer = mockPort._getWriter();
+      writer.write.mockRejectedValueOnce(new Error("The port is broken."));
+
+      await expect(
+        serialController.writeToConnection(new Uint8Array([1])),
+      ).rejects.toThrow("The port is broken.");
+      expect(writer.releaseLock).toHaveBeenCalled();
+    });
+
+    it("should reject a stalled write with a WriteTimeoutError", async () => {
+      await serialController.openPort();
+      vi.useFakeTimers();
+      try {
+        mockPort
+          ._getWriter()
+          .write.mockReturnValueOnce(new Promise<void>(() => {}));
+
+        const write = serialController.writeToConnection(new Uint8Array([1]));
+        const result = expect(write).rejects.toThrow(WriteTimeoutError);
+        await vi.advanceTimersByTimeAsync(5000);
+        await result;
+
+        await serialController.writeToConnection(new Uint8Array([2]));
+        expect(vi.getTimerCount()).toBe(0);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should not route a response to a command whose write failed", async () => {
+      await serialController.openPort();
+      const unsolicited: Event[] = [];
+      serialController.addEventListener("unsolicited-frame", (event) =>
+        unsolicited.push(event),
+      );
+      mockPort
+        ._getWriter()
+        .write.mockRejectedValueOnce(new Error("The port is broken."));
+
+      await expect(serialController.readRegister(0x1000)).rejects.toThrow(
+        "The port is broken.",
+      );
+      mockPort._pushData(
+        slipEncode(createResponsePacket(EspCommand.READ_REG, 1)),
+      );
+
+      await vi.waitFor(() => expect(unsolicited).toHaveLength(1));
+    });
   });
 
   describe("sync", () => {
@@ -268,6 +379,29 @@ describe("SerialController", () => {
       expect(mockPort._getWriter().write).toHaveBeenCalledTimes(10);
     });
 
+    it("should try each default reset strategy in turn", async () => {
+      const resetSpy = vi.spyOn(serialController, "sendResetPulse");
+      const syncPromise = serialController.sync();
+      await vi.runAllTimersAsync();
+      await syncPromise;
+
+      expect(resetSpy.mock.calls.map((call) => call[0])).toEqual([
+        "classic",
+        "unix-tight",
+        "usb-jtag",
+      ]);
+    });
+
+    it("should only use the configured reset strategy", async () => {
+      serialController.resetOptions.before = "no-reset";
+      const resetSpy = vi.spyOn(serialController, "sendResetPulse");
+      const syncPromise = serialController.sync();
+      await vi.runAllTimersAsync();
+      await syncPromise;
+
+      expect(resetSpy).toHaveBeenCalledExactlyOnceWith("no-reset");
+    });
+
     it("should dispatch sync-progress events", async () => {
       const dispatchEventSpy = vi.spyOn(serialController, "dispatchEvent");
       const writer = mockPort._getWriter();
@@ -362,10 +496,11 @@ describe("SerialController", () => {
           filename: "data",
         } as Partition,
       ],
-    } as ESPImage;
+      setChip: vi.fn(),
+    } as unknown as ESPImage;
 
     beforeEach(async () => {
-      vi.spyOn(serialController as any, "getStubForChip").mockResolvedValue(
+      vi.spyOn(internals(serialController), "getStubForChip").mockResolvedValue(
         mockStub,
       );
       vi.spyOn(serialController, "sync").mockResolvedValue(true);
@@ -373,16 +508,19 @@ describe("SerialController", () => {
         serialController.connection.chip = ChipFamily.ESP32;
         return ChipFamily.ESP32;
       });
-      vi.spyOn(serialController as any, "uploadStub").mockResolvedValue(
+      vi.spyOn(internals(serialController), "uploadStub").mockResolvedValue(
         undefined,
       );
       vi.spyOn(serialController, "flashPartition").mockResolvedValue();
+      vi.spyOn(serialController, "verifyPartition").mockResolvedValue();
       vi.spyOn(serialController, "sendResetPulse").mockResolvedValue();
-      vi.spyOn(serialController as any, "readResponse").mockResolvedValue(
+      vi.spyOn(internals(serialController), "readResponse").mockResolvedValue(
         new EspCommandPacket(),
       );
 
       serialController.connection.connected = true;
+      serialController.connection.writable =
+        mockPort.writable as unknown as WritableStream<Uint8Array>;
       serialController.connection.chip = ChipFamily.ESP32;
       serialController.connection.synced = true;
     });
@@ -400,22 +538,29 @@ describe("SerialController", () => {
       expect(serialController.sync).toHaveBeenCalledTimes(0);
       expect(serialController.detectChip).toHaveBeenCalledTimes(0);
 
-      expect((serialController as any).uploadStub).toHaveBeenCalledWith(
+      expect(internals(serialController).uploadStub).toHaveBeenCalledWith(
         mockStub,
       );
-      expect((serialController as any).readResponse).toHaveBeenCalledWith(
+      expect(internals(serialController).readResponse).toHaveBeenCalledWith(
         EspCommand.SPI_ATTACH,
+        2000,
+        expect.any(AbortSignal),
       );
-      expect((serialController as any).readResponse).toHaveBeenCalledWith(
+      expect(internals(serialController).readResponse).toHaveBeenCalledWith(
         EspCommand.SPI_SET_PARAMS,
+        2000,
+        expect.any(AbortSignal),
       );
       expect(serialController.flashPartition).toHaveBeenCalledTimes(2);
       expect(serialController.flashPartition).toHaveBeenCalledWith(
         mockImage.partitions[0],
+        { compress: undefined, maxInFlight: undefined },
       );
       expect(serialController.flashPartition).toHaveBeenCalledWith(
         mockImage.partitions[1],
+        { compress: undefined, maxInFlight: undefined },
       );
+      expect(serialController.verifyPartition).toHaveBeenCalledTimes(2);
       expect(serialController.sendResetPulse).toHaveBeenCalledOnce();
     });
 
@@ -431,12 +576,11 @@ describe("SerialController", () => {
 
     it("should dispatch flash-image-progress events", async () => {
       (serialController.flashPartition as Mock).mockRestore();
-      vi.spyOn(
-        serialController as any,
-        "readResponse",
-      ).mockImplementation(async (): Promise<EspCommandPacket> => {
-        return new EspCommandPacket();
-      });
+      vi.spyOn(internals(serialController), "readResponse").mockImplementation(
+        async (): Promise<EspCommandPacket> => {
+          return new EspCommandPacket();
+        },
+      );
 
       const dispatchEventSpy = vi.spyOn(serialController, "dispatchEvent");
       await serialController.flashImage(mockImage);
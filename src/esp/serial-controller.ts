@@ -18,11 +18,22 @@ import {
   createLineBreakTransformer,
   SlipStreamDecoder,
 } from "./stream-transformers";
-import { sleep, toHex, base64ToUint8Array } from "../utils/common";
-import { EspCommand, EspCommandPacket, EspPacketDirection } from "./command";
+import {
+  sleep,
+  toHex,
+  base64ToUint8Array,
+  deflate,
+  slipEncode,
+} from "../utils/common";
+import { EspCommand, EspCommandPacket } from "./command";
 import { ESPImage } from "../image/image";
 import { Partition } from "../partition/partition";
 import { version } from "../../package.json";
+import {
+  SerialTransport,
+  TRANSPORT_DISCONNECT_EVENT,
+} from "../transport/transport";
+import { WebSerialTransport } from "../transport/web-serial-transport";
 
 // Import all necessary command classes
 import { EspCommandSync } from "./command.sync";
@@ -30,23 +41,81 @@ import { EspCommandSpiAttach } from "./command.spi-attach";
 import { EspCommandSpiSetParams } from "./command.spi-set-params";
 import { EspCommandFlashBegin } from "./command.flash-begin";
 import { EspCommandFlashData } from "./command.flash-data";
+import { EspCommandFlashDeflBegin } from "./command.flash-defl-begin";
+import { EspCommandFlashDeflData } from "./command.flash-defl-data";
+import { EspCommandFlashDeflEnd } from "./command.flash-defl-end";
 import { EspCommandReadReg } from "./command.read-reg";
 import { EspCommandMemBegin } from "./command.mem-begin";
 import { EspCommandMemData } from "./command.mem-data";
 import { EspCommandMemEnd } from "./command.mem-end";
+import { EspCommandSpiFlashMD5 } from "./command.spi-flash-md5";
+import { EspCommandReadFlash } from "./command.read-flash";
+import { EspCommandEraseFlash } from "./command.erase-flash";
+import { EspCommandEraseRegion } from "./command.erase-region";
+import { EspCommandChangeBaudrate } from "./command.change-bauderate";
+import { EspCommandGetSecurityInfo } from "./command.get-security-info";
+import { EspCommandWriteReg } from "./command.write-reg";
+import { EspCommandFlashEnd } from "./command.flash-end";
+import {
+  ResponseDispatcher,
+  ResponseFrame,
+  UNSOLICITED_FRAME_EVENT,
+} from "./response-dispatcher";
+import { EspCommandRunUserCode } from "./command.run-user-code";
+import {
+  ESP_IMAGE_MAGIC,
+  ImageFlashMode,
+  ImageFlashParams,
+  parseAppImageLayout,
+  patchImageFlashParams,
+} from "../image/app-image";
+import {
+  APP_DESC_OFFSET,
+  APP_DESC_SIZE,
+  AppDescription,
+  parseAppDescription,
+} from "../image/app-description";
+import { FlashInfo, SPIFLASH_RDID, decodeFlashId } from "./spi-flash";
+import { DeviceInfo, readDeviceInfo } from "./device-info";
+import { EfuseSummary, readEfuses } from "./efuse";
+import { SecurityInfo, parseSecurityInfo } from "./security-info";
+import {
+  DEFAULT_RESET_STRATEGIES,
+  ResetStrategy,
+  parseResetSequence,
+  runResetSequence,
+} from "./reset-strategies";
+import {
+  ChipFamily,
+  chipFromChipId,
+  chipFromMagicValue,
+  getChipTarget,
+} from "./chip-targets";
+
+export { ChipFamily } from "./chip-targets";
+import {
+  FlashVerificationError,
+  SecureDownloadModeError,
+  WriteTimeoutError,
+} from "./errors";
+import SparkMD5 from "spark-md5";
 
 import stub32 from "./stub-flasher/stub_flasher_32.json";
 import stub32s2 from "./stub-flasher/stub_flasher_32s2.json";
 import stub32s3 from "./stub-flasher/stub_flasher_32s3.json";
+import stub32c2 from "./stub-flasher/stub_flasher_32c2.json";
 import stub32c3 from "./stub-flasher/stub_flasher_32c3.json";
+import stub32c5 from "./stub-flasher/stub_flasher_32c5.json";
 import stub32c6 from "./stub-flasher/stub_flasher_32c6.json";
+import stub32c61 from "./stub-flasher/stub_flasher_32c61.json";
 import stub32h2 from "./stub-flasher/stub_flasher_32h2.json";
+import stub32p4 from "./stub-flasher/stub_flasher_32p4.json";
 import stub8266 from "./stub-flasher/stub_flasher_8266.json";
 
 /**
  * Default serial options when connecting to an ESP32.
  */
-const DEFAULT_ESP32_SERIAL_OPTIONS: SerialOptions = {
+export const DEFAULT_ESP32_SERIAL_OPTIONS: SerialOptions = {
   baudRate: 115200,
   dataBits: 8,
   stopBits: 1,
@@ -56,18 +125,61 @@ const DEFAULT_ESP32_SERIAL_OPTIONS: SerialOptions = {
 };
 
 /**
- * Known chip families and their magic values.
+ * Size of the data packets sent with FLASH_DATA and FLASH_DEFL_DATA.
  */
-export enum ChipFamily {
-  ESP32 = 0x00f01d83,
-  ESP32S2 = 0x000007c6,
-  ESP32S3 = 0x9,
-  ESP32C3 = 0x6921506f,
-  ESP32C6 = 0x2ce0806f,
-  ESP32H2 = 0xca02c06f,
-  ESP8266 = 0xfff0c101,
-  UNKNOWN = 0xffffffff,
-}
+const FLASH_WRITE_SIZE = 0x1000;
+
+/**
+ * Size of the data packets the ROM loader accepts, which is smaller than
+ * what the stub takes.
+ */
+const ROM_FLASH_WRITE_SIZE = 0x400;
+
+/**
+ * Time allowed for the serial port to take a single write, including the
+ * wait for a backed up stream to drain.
+ */
+const WRITE_TIMEOUT = 5000;
+
+/**
+ * Time allowed per megabyte to erase and write flash.
+ */
+const ERASE_WRITE_TIMEOUT_PER_MB = 40000;
+
+/**
+ * Time allowed per megabyte for the device to calculate an MD5 digest.
+ */
+const MD5_TIMEOUT_PER_MB = 8000;
+
+/**
+ * Size of a flash sector, the smallest unit that can be erased.
+ */
+const FLASH_SECTOR_SIZE = 0x1000;
+
+/**
+ * Time allowed per megabyte to erase a flash region.
+ */
+const ERASE_REGION_TIMEOUT_PER_MB = 30000;
+
+/**
+ * Minimum time allowed to erase the whole flash chip, also used when the flash
+ * size is unknown. Larger chips get ERASE_REGION_TIMEOUT_PER_MB per megabyte.
+ */
+const CHIP_ERASE_TIMEOUT = 120000;
+
+/**
+ * SPI controller register bits used to run raw flash commands.
+ */
+const SPI_CMD_USR = 1 << 18;
+const SPI_USR_COMMAND = 1 << 31;
+const SPI_USR_MISO = 1 << 28;
+const SPI_USR2_COMMAND_LEN_SHIFT = 28;
+const SPI_MISO_BITLEN_S = 8;
+
+/**
+ * Register holding a chip-specific magic value, readable on every chip.
+ */
+const CHIP_DETECT_MAGIC_REG_ADDR = 0x40001000;
 
 /**
  * Interface representing the structure of a flasher stub JSON file.
@@ -84,8 +196,8 @@ export interface Stub {
  * Interface defining the properties of a serial connection.
  */
 export interface SerialConnection {
-  /** The underlying SerialPort object. Undefined if no port is selected. */
-  port: SerialPort | undefined;
+  /** The transport used to talk to the device. Undefined if none is selected. */
+  transport: SerialTransport | undefined;
   /** Indicates if the serial port is currently open and connected. */
   connected: boolean;
   /** Indicates if the connection has been synchronized with the device. */
@@ -98,51 +210,255 @@ export interface SerialConnection {
   writable: WritableStream<Uint8Array> | null;
   /** An AbortController to signal termination of stream operations. Undefined if not connected. */
   abortStreamController: AbortController | undefined;
-  /** A readable stream that contains the slipstream decoded responses from the esp. */
-  commandResponseStream: ReadableStream<Uint8Array> | undefined;
-  /** Info about the connected port (VID/PID) to identify it during re-enumeration. */
-  portInfo?: SerialPortInfo;
+  /** Routes the slipstream decoded responses from the esp to waiting commands. */
+  responseDispatcher: ResponseDispatcher | undefined;
   /** Flag to indicate if the device was lost (disconnected). */
   deviceLost: boolean;
+  /** Indicates if the flasher stub is running on the device. */
+  stubLoaded: boolean;
+  /** The baud rate the port is currently open at. */
+  baudRate: number;
+  /** The detected SPI flash. Null until the flash has been detected. */
+  flash: FlashInfo | null;
+  /** MAC, revision, package and crystal. Null until getDeviceInfo is called. */
+  deviceInfo: DeviceInfo | null;
+  /**
+   * The chip is in secure download mode: the ROM refuses register access,
+   * the flasher stub and MD5 checks, so only plain ROM flashing works.
+   */
+  secureDownloadMode: boolean;
+}
+
+/**
+ * Options for writing a single partition.
+ */
+export interface FlashPartitionOptions {
+  /**
+   * Send the data zlib-compressed with FLASH_DEFL_* commands. Defaults to true
+   * while the flasher stub is running.
+   */
+  compress?: boolean;
+  /**
+   * Number of data blocks sent before waiting for the oldest acknowledgement.
+   * Defaults to 2 while the flasher stub is running, which double-buffers its
+   * input, and to 1 for the ROM loader.
+   */
+  maxInFlight?: number;
+}
+
+/**
+ * Options for flashing a complete image.
+ */
+export interface FlashImageOptions extends FlashPartitionOptions {
+  /**
+   * Compare the device's MD5 of each written region with the local data.
+   * Defaults to true, or false in secure download mode.
+   */
+  verify?: boolean;
+  /**
+   * Compare the device's MD5 of each target region before writing and skip
+   * partitions whose contents already match. Defaults to false.
+   */
+  skipUnchanged?: boolean;
+  /**
+   * Erase the whole flash chip before writing. Defaults to false. Makes
+   * skipUnchanged pointless, as nothing matches after the erase.
+   */
+  eraseAll?: boolean;
+  /**
+   * Baud rate to switch to once the flasher stub is running, e.g. 921600.
+   * Falls back to the current rate if the device does not answer at it.
+   */
+  baudRate?: number;
+  /** What to do once everything is written. Defaults to `hard-reset`. */
+  after?: AfterFlashAction;
+  /**
+   * SPI flash mode written to the bootloader image header. Defaults to
+   * `keep`, which leaves the mode bits of the header as built.
+   */
+  flashMode?: FlashModeSetting;
+  /**
+   * Flash frequency written to the bootloader image header, one of the keys
+   * of the chip's `ChipTarget.flashFrequencies` such as `40m`. Defaults to
+   * `keep`, which leaves the frequency bits of the header as built.
+   */
+  flashFreq?: string;
+  /**
+   * Flash size written to the bootloader image header. `detect` uses the size
+   * of the attached flash chip. Defaults to `keep`.
+   */
+  flashSize?: FlashSizeSetting;
+}
+
+/**
+ * Flash mode setting for the bootloader header, see `flashImage`.
+ */
+export type FlashModeSetting = "keep" | "qio" | "qout" | "dio" | "dout";
+
+/**
+ * Flash size setting for the bootloader header, see `flashImage`.
+ */
+export type FlashSizeSetting =
+  | "keep"
+  | "detect"
+  | "1MB"
+  | "2MB"
+  | "4MB"
+  | "8MB"
+  | "16MB"
+  | "32MB"
+  | "64MB"
+  | "128MB";
+
+/**
+ * What `flashImage` does with the device once it is done.
+ * - `hard-reset`: resets the chip with `resetOptions.after`, by default
+ *   pulsing EN through RTS only, so the new app boots.
+ * - `soft-reset`: asks the stub (RUN_USER_CODE) or the ROM (FLASH_END) to
+ *   start the app, for boards whose reset lines are not wired.
+ * - `stay-in-loader`: leaves the loader running for further commands.
+ */
+export type AfterFlashAction = "hard-reset" | "soft-reset" | "stay-in-loader";
+
+/**
+ * Detail of the `flash-progress` event.
+ */
+export interface FlashProgress {
+  /** Percentage of the partition that has been sent. */
+  progress: number;
+  /** The partition being written. */
+  partition: Partition;
+  /** Uncompressed bytes written so far. */
+  bytesWritten: number;
+  /** Uncompressed size of the partition. */
+  totalBytes: number;
+  /** Bytes sent so far. Equals bytesWritten when not compressing. */
+  compressedBytesWritten: number;
+  /** Bytes to send in total. Equals totalBytes when not compressing. */
+  compressedTotalBytes: number;
+  /** True when the partition already matched the device and was not written. */
+  skipped?: boolean;
+  /** Uncompressed bytes written per second since the data transfer started. */
+  bytesPerSecond: number;
+  /** Estimated seconds until the partition is written. */
+  etaSeconds: number;
+}
+
+/**
+ * Detail of the `read-progress` event.
+ */
+export interface ReadFlashProgress {
+  /** Percentage of the region that has been received. */
+  progress: number;
+  /** Start address of the region being read. */
+  offset: number;
+  /** Bytes received so far. */
+  bytesRead: number;
+  /** Size of the region. */
+  totalBytes: number;
+}
+
+/**
+ * How the controller resets the device around its operations.
+ */
+export interface ResetOptions {
+  /**
+   * Strategy used to enter the ROM loader. When unset, `sync()` tries the
+   * DEFAULT_RESET_STRATEGIES in turn.
+   */
+  before?: ResetStrategy;
+  /** Strategy used once flashing is done. Defaults to `hard-reset`. */
+  after?: ResetStrategy;
 }
 
 const STUB_FILES: Partial<Record<ChipFamily, Stub>> = {
   [ChipFamily.ESP32]: stub32 as unknown as Stub,
   [ChipFamily.ESP32S2]: stub32s2 as unknown as Stub,
   [ChipFamily.ESP32S3]: stub32s3 as unknown as Stub,
+  [ChipFamily.ESP32C2]: stub32c2 as unknown as Stub,
   [ChipFamily.ESP32C3]: stub32c3 as unknown as Stub,
+  [ChipFamily.ESP32C5]: stub32c5 as unknown as Stub,
   [ChipFamily.ESP32C6]: stub32c6 as unknown as Stub,
+  [ChipFamily.ESP32C61]: stub32c61 as unknown as Stub,
   [ChipFamily.ESP32H2]: stub32h2 as unknown as Stub,
+  [ChipFamily.ESP32P4]: stub32p4 as unknown as Stub,
   [ChipFamily.ESP8266]: stub8266 as unknown as Stub,
 };
 
+/**
+ * Returns the MD5 digest of the data as a lowercase hex string.
+ */
+function md5Hex(data: Uint8Array): string {
+  return SparkMD5.ArrayBuffer.hash(data.slice().buffer);
+}
+
+/**
+ * Average transfer rate since `startedAt` and the time left at that rate.
+ * @param startedAt Timestamp in milliseconds when the transfer started.
+ * @param done Bytes transferred so far.
+ * @param total Bytes to transfer in total.
+ */
+function estimateThroughput(
+  startedAt: number,
+  done: number,
+  total: number,
+): { bytesPerSecond: number; etaSeconds: number } {
+  const elapsedSeconds = Math.max(Date.now() - startedAt, 1) / 1000;
+  const bytesPerSecond = done / elapsedSeconds;
+  const etaSeconds =
+    bytesPerSecond > 0 ? Math.max(total - done, 0) / bytesPerSecond : 0;
+  return { bytesPerSecond, etaSeconds };
+}
+
 export class SerialController extends EventTarget {
   public connection: SerialConnection;
+  private serialOptions: SerialOptions = DEFAULT_ESP32_SERIAL_OPTIONS;
+  /** Reset strategies to use before and after operations. */
+  public resetOptions: ResetOptions = {};
 
-  constructor() {
+  /**
+   * @param transport Optional transport to use. Browser apps can leave this
+   * empty and call `requestPort` to pick a Web Serial port instead.
+   */
+  constructor(transport?: SerialTransport) {
     super();
     this.connection = this.createSerialConnection();
+    this.connection.transport = transport;
     console.log(`ESP-Controller v${version} initialized`);
   }
 
   private createSerialConnection(): SerialConnection {
     return {
-      port: undefined,
+      transport: undefined,
       connected: false,
       synced: false,
       chip: null,
       readable: null,
       writable: null,
       abortStreamController: undefined,
-      commandResponseStream: undefined,
-      portInfo: undefined,
+      responseDispatcher: undefined,
       deviceLost: false,
+      stubLoaded: false,
+      baudRate: DEFAULT_ESP32_SERIAL_OPTIONS.baudRate,
+      flash: null,
+      deviceInfo: null,
+      secureDownloadMode: false,
     };
   }
 
+  /**
+   * Prompts the user for a Web Serial port and uses it as the transport.
+   */
   public async requestPort(): Promise<void> {
-    this.connection.port = await navigator.serial.requestPort();
-    this.connection.portInfo = this.connection.port.getInfo();
+    this.setTransport(await WebSerialTransport.request());
+  }
+
+  /**
+   * Selects the transport used for the next `openPort` call.
+   * @param transport The transport to talk to the device through.
+   */
+  public setTransport(transport: SerialTransport): void {
+    this.connection.transport = transport;
     this.connection.synced = false;
     this.connection.chip = null;
   }
@@ -157,7 +473,7 @@ export class SerialController extends EventTarget {
       !this.connection.readable ||
       !this.connection.abortStreamController
     )
-      return async function* logStream() { };
+      return async function* logStream() {};
 
     const streamPipeOptions = {
       signal: this.connection.abortStreamController.signal,
@@ -170,7 +486,13 @@ export class SerialController extends EventTarget {
     this.connection.readable = newReadable;
 
     const reader = logReadable
-      .pipeThrough(new TextDecoderStream() as unknown as ReadableWritablePair<string, Uint8Array>, streamPipeOptions)
+      .pipeThrough(
+        new TextDecoderStream() as unknown as ReadableWritablePair<
+          string,
+          Uint8Array
+        >,
+        streamPipeOptions,
+      )
       .pipeThrough(createLineBreakTransformer(), streamPipeOptions)
       .getReader();
 
@@ -191,216 +513,287 @@ export class SerialController extends EventTarget {
   public async openPort(
     options: SerialOptions = DEFAULT_ESP32_SERIAL_OPTIONS,
   ): Promise<void> {
-    if (!this.connection.port) return;
-    await this.connection?.port.open(options);
+    const transport = this.connection.transport;
+    if (!transport) return;
+    await transport.open(options);
+    this.serialOptions = options;
+    this.connection.baudRate = options.baudRate;
 
-    if (!this.connection.port?.readable) return;
+    if (!transport.readable) return;
 
     this.connection.abortStreamController = new AbortController();
-    const [commandTee, logTee] = this.connection.port.readable.tee();
+    const [commandTee, logTee] = transport.readable.tee();
 
     this.connection.connected = true;
     this.connection.readable = logTee;
-    this.connection.writable = this.connection.port.writable;
-    this.connection.commandResponseStream = commandTee.pipeThrough(
-      new SlipStreamDecoder(),
-      { signal: this.connection.abortStreamController.signal },
+    this.connection.writable = transport.writable;
+    const dispatcher = new ResponseDispatcher(
+      commandTee.pipeThrough(new SlipStreamDecoder(), {
+        signal: this.connection.abortStreamController.signal,
+      }),
+      () => this.statusLength(),
+    );
+    dispatcher.addEventListener(UNSOLICITED_FRAME_EVENT, (event) =>
+      this.dispatchEvent(
+        new CustomEvent(UNSOLICITED_FRAME_EVENT, {
+          detail: (event as CustomEvent<ResponseFrame>).detail,
+        }),
+      ),
     );
+    this.connection.responseDispatcher = dispatcher;
 
     // Listen for disconnects
-    navigator.serial.addEventListener("disconnect", (event) => {
-      if (event.target === this.connection.port) {
-        console.log("Device disconnected (event reported).");
-        this.connection.deviceLost = true;
-        // Force the stream to error out so we break any pending reads
-        try {
-          this.connection.abortStreamController?.abort();
-        } catch (e) {
-          console.error("Error aborting stream on disconnect:", e);
-        }
-      }
-    });
+    transport.addEventListener(
+      TRANSPORT_DISCONNECT_EVENT,
+      this.onTransportDisconnect,
+    );
+  }
+
+  private onTransportDisconnect = () => {
+    console.log("Device disconnected (event reported).");
+    this.connection.deviceLost = true;
+    // Force the stream to error out so we break any pending reads
+    try {
+      this.connection.abortStreamController?.abort();
+    } catch (e) {
+      console.error("Error aborting stream on disconnect:", e);
+    }
+  };
+
+  /**
+   * Closes and reopens the transport at a different baud rate, keeping the
+   * sync, chip and stub state.
+   * @param baudRate The baud rate to reopen the port at.
+   */
+  private async reopenPort(baudRate: number): Promise<void> {
+    const transport = this.connection.transport;
+    if (!transport) return;
+
+    this.connection.abortStreamController?.abort();
+    transport.removeEventListener(
+      TRANSPORT_DISCONNECT_EVENT,
+      this.onTransportDisconnect,
+    );
+    // Releases the log branch of the tee so the port can be closed.
+    await this.connection.readable?.cancel().catch(() => {});
+    await transport.close();
+
+    const options = this.serialOptions;
+    await this.openPort({ ...options, baudRate });
+    this.serialOptions = options;
+  }
+
+  /**
+   * Switches the flasher stub and the port to a different baud rate, then
+   * checks that the device still answers. If it does not, the port returns
+   * to the previous rate and the device is reset and the stub restarted.
+   * @param baudRate The baud rate to switch to, e.g. 921600.
+   * @returns True if the new baud rate is active.
+   */
+  public async changeBaudRate(baudRate: number): Promise<boolean> {
+    this.assertNotSecureDownloadMode("Changing the baud rate");
+    if (!this.connection.stubLoaded) {
+      throw new Error("The flasher stub must be running to change baud rate.");
+    }
+    const previous = this.connection.baudRate;
+    if (baudRate === previous) {
+      return true;
+    }
+
+    const baudCmd = new EspCommandChangeBaudrate(baudRate, previous);
+    await this.sendCommand(baudCmd);
+    await this.reopenPort(baudRate);
+    await sleep(50);
+
+    try {
+      const readRegCmd = new EspCommandReadReg(CHIP_DETECT_MAGIC_REG_ADDR);
+      await this.sendCommand(readRegCmd, 1000);
+      console.log(`Changed baud rate to ${baudRate}.`);
+      return true;
+    } catch (e) {
+      console.warn(
+        `Device did not respond at ${baudRate} baud, falling back to ${previous}.`,
+        e,
+      );
+    }
+
+    await this.reopenPort(previous);
+    this.connection.synced = false;
+    this.connection.stubLoaded = false;
+    await this.prepareFlashAccess();
+    return false;
   }
 
   public async disconnect(): Promise<void> {
-    if (!this.connection.connected || !this.connection.port) {
+    const transport = this.connection.transport;
+    if (!this.connection.connected || !transport) {
       return;
     }
 
     // Abort any ongoing stream operations
     this.connection.abortStreamController?.abort();
+    transport.removeEventListener(
+      TRANSPORT_DISCONNECT_EVENT,
+      this.onTransportDisconnect,
+    );
 
     try {
-      await this.connection.port.close();
+      await transport.close();
     } catch (error) {
       // The port might already be closed or disconnected by the device.
       console.error("Failed to close the serial port:", error);
     }
 
-    // Reset the connection state, but keep the port reference
-    const port = this.connection.port;
+    // Reset the connection state, but keep the transport reference
     this.connection = this.createSerialConnection();
-    this.connection.port = port;
+    this.connection.transport = transport;
   }
 
-  public async sendResetPulse(): Promise<void> {
-    if (!this.connection.port) return;
-
-    // Standard ESP32 Reset Sequence (Modified for Native USB/S3/C3):
-    // 1. DTR=0, RTS=0 (Start)
-    await this.connection.port.setSignals({ dataTerminalReady: false, requestToSend: false });
-    await sleep(100);
-
-    // 2. DTR=1, RTS=0 (IO0=0, EN=1) -> Prepare Boot (Assert Boot FIRST)
-    // This ensures IO0 is stable Low before we pull Reset Low.
-    await this.connection.port.setSignals({ dataTerminalReady: true, requestToSend: false });
-    await sleep(200);
-
-    // 3. DTR=1, RTS=1 (IO0=0, EN=0) -> Reset (Assert Reset while Boot held)
-    await this.connection.port.setSignals({ dataTerminalReady: true, requestToSend: true });
-    await sleep(200);
+  /**
+   * Resets the device by driving the DTR and RTS lines.
+   * @param strategy A named strategy or a custom sequence. Defaults to
+   * `resetOptions.before`, or `classic` when that is unset.
+   */
+  public async sendResetPulse(
+    strategy: ResetStrategy = this.resetOptions.before ??
+      DEFAULT_RESET_STRATEGIES[0],
+  ): Promise<void> {
+    const transport = this.connection.transport;
+    if (!transport) return;
 
-    // 4. DTR=1, RTS=0 (IO0=0, EN=1) -> Release Reset (still holding Boot)
-    await this.connection.port.setSignals({ dataTerminalReady: true, requestToSend: false });
-    await sleep(200);
+    const steps = parseResetSequence(strategy);
+    if (steps.length === 0) {
+      // Nothing was reset, so the loader or stub is still running.
+      return;
+    }
+    await runResetSequence(transport, steps);
+    // The device will not answer the requests that went unanswered before.
+    this.connection.responseDispatcher?.clearAbandoned();
 
-    // 5. DTR=0, RTS=0 (Release all)
-    await this.connection.port.setSignals({ dataTerminalReady: false, requestToSend: false });
-    await sleep(100);
+    // Whatever was running before, the device has to be synced again.
+    this.connection.synced = false;
+    this.connection.stubLoaded = false;
   }
 
-  public async writeToConnection(data: Uint8Array) {
-    if (this.connection.writable) {
-      const writer = this.connection.writable.getWriter();
-      try {
-        const writePromise = writer.write(data);
-        const timeoutPromise = sleep(500).then(() => {
-          throw new Error("Write timeout - buffer likely full");
-        });
-
-        await Promise.race([writePromise, timeoutPromise]);
-      } catch (e) {
-        console.warn("Write failed or timed out:", e);
-      } finally {
-        writer.releaseLock();
-      }
+  /**
+   * Writes raw bytes to the port, waiting for a backed up stream to drain
+   * first.
+   * @param data The bytes to write.
+   * @param timeout Milliseconds to wait for the write to complete.
+   * @throws WriteTimeoutError if the port does not take the data in time.
+   * @throws Error if the port is not open or the write fails.
+   */
+  public async writeToConnection(data: Uint8Array, timeout = WRITE_TIMEOUT) {
+    if (!this.connection.writable) {
+      throw new Error("Device is not connected.");
+    }
+    const writer = this.connection.writable.getWriter();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const write = (async () => {
+      await writer.ready;
+      await writer.write(data);
+    })();
+    try {
+      await Promise.race([
+        write,
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(
+            () => reject(new WriteTimeoutError(timeout)),
+            timeout,
+          );
+        }),
+      ]);
+    } finally {
+      clearTimeout(timer);
+      // A write that timed out may still fail once the lock is released.
+      write.catch(() => {});
+      writer.releaseLock();
     }
   }
 
+  /**
+   * Resets the device into the ROM loader and synchronizes with it. Uses
+   * `resetOptions.before` if set, otherwise moves on to the next of the
+   * DEFAULT_RESET_STRATEGIES whenever a few attempts go unanswered.
+   * @returns True once the device answered a SYNC request.
+   */
   public async sync(): Promise<boolean> {
-    await this.sendResetPulse();
+    const strategies = this.resetOptions.before
+      ? [this.resetOptions.before]
+      : DEFAULT_RESET_STRATEGIES;
     const maxAttempts = 10;
+    const attemptsPerStrategy = Math.ceil(maxAttempts / strategies.length);
     const timeoutPerAttempt = 500; // ms
 
     const syncCommand = new EspCommandSync();
 
     for (let i = 0; i < maxAttempts; i++) {
+      if (i % attemptsPerStrategy === 0) {
+        const strategy = strategies[i / attemptsPerStrategy];
+        console.log(`Resetting the device (${strategy})`);
+        await this.sendResetPulse(strategy);
+      }
       this.dispatchEvent(
         new CustomEvent("sync-progress", {
           detail: { progress: (i / maxAttempts) * 100 },
         }),
       );
       console.log(`Sync attempt ${i + 1} of ${maxAttempts}`);
-      await this.writeToConnection(
-        syncCommand.getSlipStreamEncodedPacketData(),
-      );
-
-      let responseReader: ReadableStreamDefaultReader<Uint8Array> | undefined;
-
       try {
-        if (!this.connection.commandResponseStream) {
-          throw new Error(`No command response stream available.`);
-        }
-        responseReader = this.connection.commandResponseStream.getReader();
-
-        const timeoutPromise = sleep(timeoutPerAttempt).then(() => {
-          throw new Error(`Timeout after ${timeoutPerAttempt}ms`);
-        });
-
-        while (true) {
-          const { value, done } = await Promise.race([
-            responseReader.read(),
-            timeoutPromise,
-          ]);
-
-          if (done) {
-            throw new Error("Stream closed unexpectedly while syncing.");
-          }
-
-          if (value) {
-            try {
-              const responsePacket = new EspCommandPacket();
-              responsePacket.parseResponse(value);
-
-              if (responsePacket.command === EspCommand.SYNC) {
-                console.log("SYNCED successfully.", responsePacket);
-                this.connection.synced = true;
-                this.dispatchEvent(
-                  new CustomEvent("sync-progress", {
-                    detail: { progress: 100 },
-                  }),
-                );
-                return true;
-              }
-            } catch {
-              // Ignore parsing errors and continue reading from the stream
-            }
-          }
-        }
-      } catch (e: any) {
+        // The ROM answers every SYNC several times. The surplus responses
+        // show up as unsolicited frames.
+        const response = await this.sendCommand(syncCommand, timeoutPerAttempt);
+        console.log("SYNCED successfully.", response);
+        this.connection.synced = true;
+        this.dispatchEvent(
+          new CustomEvent("sync-progress", {
+            detail: { progress: 100 },
+          }),
+        );
+        return true;
+      } catch (err) {
+        const e = err as Error;
         console.log(`Sync attempt ${i + 1} failed.`, e);
 
         // Check for recognized disconnects or stream errors
         if (
           this.connection.deviceLost ||
-          e.name === 'NetworkError' ||
-          e.message?.includes('The device has been lost') ||
-          e.message?.includes('Stream closed unexpectedly') ||
-          e.name === 'AbortError' // Handle the manual abort
+          e.name === "NetworkError" ||
+          e.message?.includes("The device has been lost") ||
+          e.message?.includes("Stream closed unexpectedly") ||
+          e.name === "AbortError" // Handle the manual abort
         ) {
-          console.log('Device connection lost. Initiating recovery...');
+          console.log("Device connection lost. Initiating recovery...");
           this.connection.connected = false;
           // Clean up streams if possible
-          try { this.connection.abortStreamController?.abort(); } catch { }
+          try {
+            this.connection.abortStreamController?.abort();
+          } catch {
+            // The streams may already be torn down.
+          }
 
           // Wait for re-enumeration
-          console.log('Waiting for device to re-appear...');
+          console.log("Waiting for device to re-appear...");
           await sleep(2000);
 
           try {
-            const ports = await navigator.serial.getPorts();
-            console.log(`Found ${ports.length} available ports.`);
-            const targetVid = this.connection.portInfo?.usbVendorId;
-            const targetPid = this.connection.portInfo?.usbProductId;
-
-            const recoveredPort = ports.find(p => {
-              const info = p.getInfo();
-              // Match VID/PID. If original didn't have info, we might be out of luck
-              // or just take the first one? Let's be strict for now.
-              return info.usbVendorId === targetVid && info.usbProductId === targetPid;
-            });
-
-            if (recoveredPort) {
-              console.log('Found recovered device port. Reconnecting...');
-              this.connection.port = recoveredPort;
+            const recovered =
+              (await this.connection.transport?.reconnect?.()) ?? false;
+
+            if (recovered) {
+              console.log("Found recovered device port. Reconnecting...");
               // Reset flags
               this.connection.deviceLost = false;
               await this.openPort();
-              console.log('Reconnection successful. Resuming sync...');
+              console.log("Reconnection successful. Resuming sync...");
               // Reset pulse might be needed again? Or maybe it's already in bootloader?
               // Usually if we caught it after reset, it should be in bootloader.
               await sleep(100);
-            } else {
-              console.log('Could not find the device among available ports.');
             }
           } catch (recError) {
-            console.error('Error during reconnection attempt:', recError);
+            console.error("Error during reconnection attempt:", recError);
           }
         }
-      } finally {
-        if (responseReader) {
-          responseReader.releaseLock();
-        }
       }
 
       await sleep(100);
@@ -415,19 +808,21 @@ export class SerialController extends EventTarget {
     if (!this.connection.synced) {
       throw new Error("Device must be synced to detect chip type.");
     }
-    const CHIP_DETECT_MAGIC_REG_ADDR = 0x40001000;
     const readRegCmd = new EspCommandReadReg(CHIP_DETECT_MAGIC_REG_ADDR);
-    await this.writeToConnection(readRegCmd.getSlipStreamEncodedPacketData());
-    const response = await this.readResponse(EspCommand.READ_REG);
-
-    const magicValue = response.value;
-
-    const numericChipValues = Object.values(ChipFamily).filter(
-      (v) => typeof v === "number",
-    ) as ChipFamily[];
+    let magicValue = 0;
+    try {
+      const response = await this.sendCommand(readRegCmd);
+      magicValue = response.value;
+    } catch (e) {
+      // In secure download mode the ROM refuses READ_REG, but still answers
+      // GET_SECURITY_INFO.
+      console.log("Reading the chip magic value failed:", e);
+    }
 
-    const chip =
-      numericChipValues.find((c) => c === magicValue) || ChipFamily.UNKNOWN;
+    let chip = chipFromMagicValue(magicValue);
+    if (chip === ChipFamily.UNKNOWN) {
+      chip = await this.detectChipFromSecurityInfo();
+    }
 
     this.connection.chip = chip;
     console.log(
@@ -446,6 +841,7 @@ export class SerialController extends EventTarget {
     execute = false,
     entryPoint = 0,
   ) {
+    this.assertNotSecureDownloadMode("Loading code to RAM");
     console.log(
       `Loading binary to RAM at offset ${toHex(new Uint8Array(new Uint32Array([offset]).buffer))}`,
     );
@@ -458,23 +854,193 @@ export class SerialController extends EventTarget {
       packetSize,
       offset,
     );
-    await this.writeToConnection(memBeginCmd.getSlipStreamEncodedPacketData());
-    await this.readResponse(EspCommand.MEM_BEGIN);
+    await this.sendCommand(memBeginCmd);
 
     for (let i = 0; i < numPackets; i++) {
       const memDataCmd = new EspCommandMemData(binary, i, packetSize);
-      await this.writeToConnection(memDataCmd.getSlipStreamEncodedPacketData());
-      await this.readResponse(EspCommand.MEM_DATA, 1000);
+      await this.sendCommand(memDataCmd, 1000);
     }
 
     if (execute) {
       console.log(`Executing from entry point ${entryPoint}`);
-      const memEndCmd = new EspCommandMemEnd(1, entryPoint);
-      await this.writeToConnection(memEndCmd.getSlipStreamEncodedPacketData());
-      await this.readResponse(EspCommand.MEM_END);
+      const memEndCmd = new EspCommandMemEnd(0, entryPoint);
+      await this.sendCommand(memEndCmd);
     }
   }
 
+  /**
+   * Identifies the chip by the chip ID in the GET_SECURITY_INFO response.
+   * Newer chips no longer have a unique magic value.
+   */
+  private async detectChipFromSecurityInfo(): Promise<ChipFamily> {
+    try {
+      const info = await this.getSecurityInfo();
+      if (info.secureDownloadEnabled) {
+        console.log("Chip is in secure download mode.");
+        this.connection.secureDownloadMode = true;
+      }
+      if (info.chipId === null) {
+        // Only the ESP32-S2 ROM leaves out the chip ID.
+        return this.connection.secureDownloadMode
+          ? ChipFamily.ESP32S2
+          : ChipFamily.UNKNOWN;
+      }
+      return chipFromChipId(info.chipId);
+    } catch (e) {
+      // ESP8266 and ESP32 ROMs do not support the command.
+      console.log("GET_SECURITY_INFO failed:", e);
+      return ChipFamily.UNKNOWN;
+    }
+  }
+
+  /**
+   * Reads the security flags, flash encryption count, key purposes and chip
+   * ID. Answered by the ROM loader even in secure download mode. Not
+   * supported by the ESP8266 and ESP32.
+   */
+  public async getSecurityInfo(): Promise<SecurityInfo> {
+    const securityInfoCmd = new EspCommandGetSecurityInfo();
+    const response = await this.sendCommand(securityInfoCmd);
+    return parseSecurityInfo(response.payload);
+  }
+
+  /**
+   * Returns the detected chip.
+   * @param operation Description of the operation, used in the message.
+   * @throws Error if the chip has not been detected yet.
+   */
+  private requireChip(operation: string): ChipFamily {
+    const chip = this.connection.chip;
+    if (chip === null || chip === ChipFamily.UNKNOWN) {
+      throw new Error(
+        `${operation} needs the chip type. Call detectChip() first.`,
+      );
+    }
+    return chip;
+  }
+
+  /**
+   * Throws if the chip is in secure download mode.
+   * @param operation Description of the operation, used in the message.
+   */
+  private assertNotSecureDownloadMode(operation: string) {
+    if (this.connection.secureDownloadMode) {
+      throw new SecureDownloadModeError(operation);
+    }
+  }
+
+  /**
+   * Reads a 32-bit register on the device.
+   * @param address The register address.
+   */
+  public async readRegister(address: number): Promise<number> {
+    this.assertNotSecureDownloadMode("Reading registers");
+    const readRegCmd = new EspCommandReadReg(address);
+    const response = await this.sendCommand(readRegCmd);
+    return response.value;
+  }
+
+  /**
+   * Writes a 32-bit register on the device.
+   * @param address The register address.
+   * @param value The value to write.
+   * @param mask Bits of the register to change.
+   */
+  public async writeRegister(address: number, value: number, mask?: number) {
+    this.assertNotSecureDownloadMode("Writing registers");
+    const writeRegCmd = new EspCommandWriteReg(address, value, mask);
+    await this.sendCommand(writeRegCmd);
+  }
+
+  /**
+   * Reads the MAC address, chip revision, package and crystal frequency.
+   * Detects the chip first if needed. The result is cached in
+   * `connection.deviceInfo`.
+   */
+  public async getDeviceInfo(): Promise<DeviceInfo> {
+    if (this.connection.deviceInfo) {
+      return this.connection.deviceInfo;
+    }
+    const chip = this.connection.chip ?? (await this.detectChip());
+    const info = await readDeviceInfo(
+      chip,
+      (address) => this.readRegister(address),
+      this.connection.baudRate,
+    );
+    console.log(
+      `Chip is ${info.packageName} (revision v${info.revision.major}.${info.revision.minor}), crystal ${info.crystalFrequency}MHz, MAC ${info.mac}`,
+    );
+    this.connection.deviceInfo = info;
+    return info;
+  }
+
+  /**
+   * Reads every eFuse block of the connected chip and decodes the security
+   * configuration: flash encryption, secure boot, JTAG and download mode,
+   * custom MAC and which fields are write or read protected. Read-only.
+   * @returns The decoded eFuse summary.
+   */
+  public async readEfuses(): Promise<EfuseSummary> {
+    const chip = this.connection.chip ?? (await this.detectChip());
+    return readEfuses(chip, (address) => this.readRegister(address));
+  }
+
+  /**
+   * Reads the JEDEC ID of the SPI flash by running RDID through the SPI
+   * controller registers, and stores the result in `connection.flash`.
+   * The flash must be attached (SPI_ATTACH) first.
+   * @returns The decoded flash information.
+   */
+  public async detectFlash(): Promise<FlashInfo> {
+    const regs = getChipTarget(
+      this.requireChip("Detecting the flash"),
+    ).spiRegisters;
+    const cmdReg = regs.base;
+    const usrReg = regs.base + regs.usr;
+    const usr1Reg = regs.base + regs.usr1;
+    const usr2Reg = regs.base + regs.usr2;
+    const w0Reg = regs.base + regs.w0;
+    const readBits = 24;
+
+    const oldUsr = await this.readRegister(usrReg);
+    const oldUsr2 = await this.readRegister(usr2Reg);
+
+    if (regs.misoDlen !== undefined) {
+      await this.writeRegister(regs.base + regs.misoDlen, readBits - 1);
+    } else {
+      // ESP8266: MISO bit length lives in USR1 bits 8..16.
+      await this.writeRegister(usr1Reg, (readBits - 1) << SPI_MISO_BITLEN_S);
+    }
+    await this.writeRegister(usrReg, (SPI_USR_COMMAND | SPI_USR_MISO) >>> 0);
+    await this.writeRegister(
+      usr2Reg,
+      ((7 << SPI_USR2_COMMAND_LEN_SHIFT) | SPIFLASH_RDID) >>> 0,
+    );
+    await this.writeRegister(w0Reg, 0);
+    await this.writeRegister(cmdReg, SPI_CMD_USR);
+
+    let done = false;
+    for (let i = 0; i < 10 && !done; i++) {
+      done = ((await this.readRegister(cmdReg)) & SPI_CMD_USR) === 0;
+    }
+    if (!done) {
+      throw new Error("SPI flash command did not complete.");
+    }
+    const jedecId = (await this.readRegister(w0Reg)) & 0xffffff;
+
+    await this.writeRegister(usrReg, oldUsr);
+    await this.writeRegister(usr2Reg, oldUsr2);
+
+    const flash = decodeFlashId(jedecId);
+    this.connection.flash = flash;
+    console.log(
+      `Flash: ${flash.manufacturerName} (0x${flash.manufacturer.toString(16)}), device 0x${flash.deviceId.toString(16)}, ${
+        flash.size === null ? "unknown size" : `${flash.size / 0x100000}MB`
+      }`,
+    );
+    return flash;
+  }
+
   /**
    * Fetches the stub for the given chip family from the bundled JSON files.
    * @param chip The chip family to fetch the stub for.
@@ -496,125 +1062,227 @@ export class SerialController extends EventTarget {
     await this.loadToRam(data, stub.data_start, false);
 
     console.log(`Starting stub at entry point 0x${stub.entry.toString(16)}...`);
-    const memEndCmd = new EspCommandMemEnd(1, stub.entry);
-    await this.writeToConnection(memEndCmd.getSlipStreamEncodedPacketData());
-
-    await this.readResponse(EspCommand.MEM_END);
+    // The stub greets right after the MEM_END response, so start listening
+    // for it first.
+    const ohai = this.awaitOhaiResponse();
+    ohai.catch(() => {});
+    const memEndCmd = new EspCommandMemEnd(0, stub.entry);
+    await this.sendCommand(memEndCmd);
     console.log("Stub started successfully.");
 
-    await this.awaitOhaiResponse();
+    await ohai;
+    this.connection.stubLoaded = true;
   }
 
   private async awaitOhaiResponse(timeout = 2000): Promise<void> {
-    let responseReader: ReadableStreamDefaultReader<Uint8Array> | undefined;
     // The "OHAI" payload is 4 bytes: 0x4F, 0x48, 0x41, 0x49
     const ohaiPacket = new Uint8Array([0x4f, 0x48, 0x41, 0x49]);
+    const dispatcher = this.getResponseDispatcher();
+
+    console.log("Waiting for 'OHAI' packet from stub...");
+    await dispatcher.waitForFrame(
+      ({ frame }) =>
+        frame.length === ohaiPacket.length &&
+        frame.every((byte, index) => byte === ohaiPacket[index]),
+      {
+        timeout,
+        timeoutMessage: `Timeout: Did not receive "OHAI" from stub within ${timeout}ms.`,
+      },
+    );
+    console.log("'OHAI' packet received, stub confirmed.");
+  }
 
-    try {
-      if (!this.connection.commandResponseStream) {
-        throw new Error("No command response stream available.");
-      }
-      responseReader = this.connection.commandResponseStream.getReader();
-
-      const timeoutPromise = sleep(timeout).then(() => {
-        throw new Error(
-          `Timeout: Did not receive "OHAI" from stub within ${timeout}ms.`,
-        );
-      });
-
-      console.log("Waiting for 'OHAI' packet from stub...");
-
-      while (true) {
-        const { value, done } = await Promise.race([
-          responseReader.read(),
-          timeoutPromise,
-        ]);
-
-        if (done) {
-          throw new Error(
-            "Stream closed unexpectedly while waiting for 'OHAI'.",
-          );
-        }
-
-        // Compare the received packet with the expected "OHAI" signature
-        if (value && value.length === ohaiPacket.length) {
-          if (value.every((byte, index) => byte === ohaiPacket[index])) {
-            console.log("'OHAI' packet received, stub confirmed.");
-            return; // Success
-          }
-        }
-      }
-    } finally {
-      if (responseReader) {
-        responseReader.releaseLock();
-      }
+  private getResponseDispatcher(): ResponseDispatcher {
+    if (!this.connection.responseDispatcher) {
+      throw new Error("No command response stream available.");
     }
+    return this.connection.responseDispatcher;
   }
 
   private async readResponse(
     expectedCommand: EspCommand,
     timeout = 2000,
+    signal?: AbortSignal,
   ): Promise<EspCommandPacket> {
-    let responseReader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+    return this.getResponseDispatcher().waitForResponse(expectedCommand, {
+      timeout,
+      signal,
+    });
+  }
+
+  /**
+   * Writes a command and waits for its response. The wait is registered
+   * before the write, so even an immediate response is routed to it.
+   * @param packet The command to send.
+   * @param timeout Milliseconds to wait for the response.
+   */
+  private async sendCommand(
+    packet: EspCommandPacket,
+    timeout = 2000,
+  ): Promise<EspCommandPacket> {
+    const abort = new AbortController();
+    const response = this.readResponse(packet.command, timeout, abort.signal);
+    // Handled by the caller once the write is done.
+    response.catch(() => {});
     try {
-      if (!this.connection.commandResponseStream) {
-        throw new Error(`No command response stream available.`);
-      }
-      responseReader = this.connection.commandResponseStream.getReader();
-      const timeoutPromise = sleep(timeout).then(() => {
-        throw new Error(
-          `Timeout: No response received for command ${EspCommand[expectedCommand]} within ${timeout}ms.`,
-        );
-      });
+      await this.writeToConnection(packet.getSlipStreamEncodedPacketData());
+    } catch (e) {
+      // Nothing was sent, so no response may be routed to this request.
+      abort.abort(e);
+      throw e;
+    }
+    return response;
+  }
 
-      while (true) {
-        const { value, done } = await Promise.race([
-          responseReader.read(),
-          timeoutPromise,
-        ]);
+  /**
+   * Rejects every command waiting for a response, for example when the user
+   * aborts an operation. The port stays open and usable.
+   * @param reason The error the waiting calls reject with.
+   */
+  public cancelPendingCommands(reason?: Error) {
+    this.connection.responseDispatcher?.cancelAll(reason);
+  }
 
-        if (done) {
-          throw new Error(
-            "Stream closed unexpectedly while awaiting response.",
-          );
-        }
+  /**
+   * Throws if a partition holds an app or bootloader image built for another
+   * chip. Partitions that do not parse as an image are left alone.
+   * @param partition The partition to check.
+   * @param chip The connected chip.
+   */
+  private assertImageMatchesChip(partition: Partition, chip: ChipFamily) {
+    const target = getChipTarget(chip);
+    if (
+      target.chipId === undefined ||
+      partition.binary[0] !== ESP_IMAGE_MAGIC
+    ) {
+      return;
+    }
+    let imageChipId: number;
+    try {
+      imageChipId = parseAppImageLayout(partition.binary).header.chipId;
+    } catch {
+      return;
+    }
+    if (imageChipId !== target.chipId) {
+      const imageChip = chipFromChipId(imageChipId);
+      const imageChipName =
+        imageChip === ChipFamily.UNKNOWN
+          ? `chip ID ${imageChipId}`
+          : getChipTarget(imageChip).name;
+      throw new Error(
+        `${partition.filename} is built for ${imageChipName}, but the device is ${target.name}.`,
+      );
+    }
+  }
 
-        if (value) {
-          try {
-            const responsePacket = new EspCommandPacket();
-            responsePacket.parseResponse(value);
-
-            if (
-              responsePacket.direction === EspPacketDirection.RESPONSE &&
-              responsePacket.command === expectedCommand
-            ) {
-              if (responsePacket.error > 0) {
-                throw new Error(
-                  `Device returned error for ${EspCommand[expectedCommand]
-                  }: ${responsePacket.getErrorMessage(responsePacket.error)}`,
-                );
-              }
-              return responsePacket;
-            }
-          } catch {
-            // Ignore parsing errors and continue reading
-          }
-        }
+  /**
+   * Applies the flashMode, flashFreq and flashSize options to the bootloader
+   * image, leaving the image itself untouched.
+   * @param image The image to flash.
+   * @param options The flashing options.
+   * @returns The partitions to write, with the bootloader patched.
+   */
+  private async patchBootloaderFlashParams(
+    image: ESPImage,
+    options: FlashImageOptions,
+  ): Promise<Partition[]> {
+    const flashMode = options.flashMode ?? "keep";
+    const flashFreq = options.flashFreq ?? "keep";
+    const flashSize = options.flashSize ?? "keep";
+    if (flashMode === "keep" && flashFreq === "keep" && flashSize === "keep") {
+      return image.partitions;
+    }
+
+    const bootloader = image.partitions.find(
+      (partition) =>
+        partition.offset === image.bootloaderOffset &&
+        partition.binary[0] === ESP_IMAGE_MAGIC,
+    );
+    if (!bootloader) {
+      console.warn(
+        `No bootloader image at 0x${image.bootloaderOffset.toString(16)}, flash parameters are left as they are.`,
+      );
+      return image.partitions;
+    }
+
+    const target = getChipTarget(
+      this.requireChip("Changing the bootloader flash parameters"),
+    );
+    if (target.chipId === undefined) {
+      throw new Error(
+        `Changing the bootloader flash parameters is not supported for ${target.name}.`,
+      );
+    }
+
+    const params: ImageFlashParams = {};
+    if (flashMode !== "keep") {
+      params.flashMode =
+        ImageFlashMode[flashMode.toUpperCase() as keyof typeof ImageFlashMode];
+    }
+    if (flashFreq !== "keep") {
+      params.flashFrequency = target.flashFrequencies[flashFreq];
+      if (params.flashFrequency === undefined) {
+        throw new Error(
+          `${target.name} does not support a flash frequency of ${flashFreq}. Use one of: ${Object.keys(target.flashFrequencies).join(", ")}.`,
+        );
       }
-    } finally {
-      if (responseReader) {
-        responseReader.releaseLock();
+    }
+    if (flashSize === "detect") {
+      const detectedSize = this.connection.flash?.size;
+      if (detectedSize) {
+        params.flashSize = detectedSize;
+      } else {
+        console.warn(
+          "Could not detect the flash size, keeping the bootloader's setting.",
+        );
       }
+    } else if (flashSize !== "keep") {
+      params.flashSize = parseInt(flashSize, 10) * 0x100000;
     }
+
+    const patched: Partition = {
+      offset: bootloader.offset,
+      filename: bootloader.filename,
+      binary: await patchImageFlashParams(bootloader.binary, params),
+    };
+    return image.partitions.map((partition) =>
+      partition === bootloader ? patched : partition,
+    );
   }
 
-  public async flashPartition(partition: Partition) {
+  /**
+   * Writes a single partition to flash.
+   * @param partition The partition to write.
+   * @param options Flashing options. Compression defaults to on while the
+   * stub is running.
+   */
+  public async flashPartition(
+    partition: Partition,
+    options: FlashPartitionOptions = {},
+  ) {
+    const compress = options.compress ?? this.connection.stubLoaded;
     console.log(
       `Flashing partition: ${partition.filename}, offset: ${toHex(
         new Uint8Array(new Uint32Array([partition.offset]).buffer),
-      )}`,
+      )}${compress ? " (compressed)" : ""}`,
     );
-    const packetSize = 4096;
+
+    const maxInFlight =
+      options.maxInFlight ?? (this.connection.stubLoaded ? 2 : 1);
+
+    if (compress) {
+      await this.flashPartitionCompressed(partition, maxInFlight);
+    } else {
+      await this.flashPartitionUncompressed(partition, maxInFlight);
+    }
+    console.log(`Flash data for ${partition.filename} sent successfully.`);
+  }
+
+  private async flashPartitionUncompressed(
+    partition: Partition,
+    maxInFlight: number,
+  ) {
+    const packetSize = this.flashWriteSize();
     const numPackets = Math.ceil(partition.binary.length / packetSize);
 
     const flashBeginCmd = new EspCommandFlashBegin(
@@ -622,49 +1290,424 @@ export class SerialController extends EventTarget {
       partition.offset,
       packetSize,
       numPackets,
+      this.romEncryptedFlag(),
     );
-    await this.writeToConnection(
-      flashBeginCmd.getSlipStreamEncodedPacketData(),
+    await this.sendCommand(
+      flashBeginCmd,
+      this.flashBeginTimeout(partition.binary.length),
     );
-    await this.readResponse(EspCommand.FLASH_BEGIN);
     console.log("FLASH_BEGIN successful.");
 
-    for (let i = 0; i < numPackets; i++) {
-      const flashDataCmd = new EspCommandFlashData(
-        partition.binary,
-        i,
-        packetSize,
-      );
-      await this.writeToConnection(
-        flashDataCmd.getSlipStreamEncodedPacketData(),
-      );
+    const startedAt = Date.now();
+    await this.sendPipelined(
+      numPackets,
+      (i) => {
+        console.log(
+          `[${partition.filename}] Writing block ${i + 1}/${numPackets}`,
+        );
+        return new EspCommandFlashData(partition.binary, i, packetSize);
+      },
+      5000 * maxInFlight,
+      maxInFlight,
+      (i) => {
+        const written = Math.min((i + 1) * packetSize, partition.binary.length);
+        this.dispatchFlashProgress(partition, written, written, startedAt);
+      },
+    );
+  }
 
-      this.dispatchEvent(
-        new CustomEvent("flash-progress", {
-          detail: {
-            progress: ((i + 1) / numPackets) * 100,
-            partition: partition,
-          },
-        }),
-      );
+  private async flashPartitionCompressed(
+    partition: Partition,
+    maxInFlight: number,
+  ) {
+    const packetSize = this.flashWriteSize();
+    const binary = partition.binary;
+    const compressed = await deflate(binary);
+    const numPackets = Math.ceil(compressed.length / packetSize);
+
+    // The stub erases as it goes and wants the exact size, the ROM erases up
+    // front and wants it rounded up to whole blocks.
+    const writeSize = this.connection.stubLoaded
+      ? binary.length
+      : Math.ceil(binary.length / packetSize) * packetSize;
+    const flashBeginCmd = new EspCommandFlashDeflBegin(
+      writeSize,
+      numPackets,
+      packetSize,
+      partition.offset,
+      this.romEncryptedFlag(),
+    );
+    await this.sendCommand(flashBeginCmd, this.flashBeginTimeout(writeSize));
+    console.log("FLASH_DEFL_BEGIN successful.");
+
+    // A highly compressible block can expand to many sectors that all need to
+    // be erased and written before the device answers. Blocks queued behind it
+    // wait that long as well.
+    const ratio = binary.length / Math.max(compressed.length, 1);
+    const blockTimeout =
+      Math.max(
+        5000,
+        ERASE_WRITE_TIMEOUT_PER_MB * ((packetSize * ratio) / (1024 * 1024)),
+      ) * maxInFlight;
+
+    const startedAt = Date.now();
+    await this.sendPipelined(
+      numPackets,
+      (i) => {
+        console.log(
+          `[${partition.filename}] Writing compressed block ${i + 1}/${numPackets}`,
+        );
+        return new EspCommandFlashDeflData(compressed, i, packetSize);
+      },
+      blockTimeout,
+      maxInFlight,
+      (i) => {
+        const compressedWritten = Math.min(
+          (i + 1) * packetSize,
+          compressed.length,
+        );
+        const written =
+          i === numPackets - 1
+            ? binary.length
+            : Math.floor(compressedWritten * ratio);
+        this.dispatchFlashProgress(
+          partition,
+          written,
+          compressedWritten,
+          startedAt,
+          compressed.length,
+        );
+      },
+    );
 
-      console.log(
-        `[${partition.filename}] Writing block ${i + 1}/${numPackets}`,
-      );
-      await this.readResponse(EspCommand.FLASH_DATA, 5000);
+    // Sending FLASH_DEFL_END to the ROM loader would make it run user code.
+    if (this.connection.stubLoaded) {
+      const flashEndCmd = new EspCommandFlashDeflEnd(true);
+      await this.sendCommand(flashEndCmd);
     }
-    console.log(`Flash data for ${partition.filename} sent successfully.`);
   }
 
   /**
-   * Main method to flash a complete image.
-   * @param image The ESPImage to flash.
+   * Number of status bytes that end the responses of the running loader,
+   * esptool's STATUS_BYTES_LENGTH. Until the chip is known this is two, as in
+   * esptool, which is enough for the commands chip detection sends.
+   */
+  private statusLength(): number {
+    const chip = this.connection.chip;
+    if (
+      this.connection.stubLoaded ||
+      !chip ||
+      chip === ChipFamily.UNKNOWN ||
+      chip === ChipFamily.ESP8266
+    ) {
+      return 2;
+    }
+    return 4;
+  }
+
+  /**
+   * Size of the FLASH_DATA and FLASH_DEFL_DATA blocks for the running loader.
+   */
+  private flashWriteSize(): number {
+    return this.connection.stubLoaded ? FLASH_WRITE_SIZE : ROM_FLASH_WRITE_SIZE;
+  }
+
+  /**
+   * The ROM loader erases the whole region before it answers FLASH_BEGIN and
+   * FLASH_DEFL_BEGIN, so its timeout grows with the size. The stub erases as
+   * it writes and answers right away.
+   * @param size Number of bytes the command erases.
+   */
+  private flashBeginTimeout(size: number): number {
+    if (this.connection.stubLoaded) return 2000;
+    return Math.max(
+      2000,
+      Math.ceil((size / 0x100000) * ERASE_REGION_TIMEOUT_PER_MB),
+    );
+  }
+
+  /**
+   * The fifth "encrypted" FLASH_BEGIN word, for ROM loaders that expect it.
+   * Undefined while the stub runs and on the ESP32 and ESP8266 ROMs.
+   */
+  private romEncryptedFlag(): boolean | undefined {
+    const chip = this.connection.chip;
+    if (this.connection.stubLoaded || !chip || chip === ChipFamily.UNKNOWN) {
+      return undefined;
+    }
+    return getChipTarget(chip).supportsEncryptedFlash ? false : undefined;
+  }
+
+  /**
+   * Sends a run of data blocks, keeping up to `maxInFlight` of them
+   * unacknowledged. The loader answers blocks in the order it receives them,
+   * so the oldest pending wait always belongs to the oldest block in flight.
+   * A failed block aborts the waits of the blocks queued behind it.
+   * @param count Number of blocks to send.
+   * @param createPacket Builds the packet for a block, called just before it
+   * is sent.
+   * @param timeout Milliseconds to wait for each acknowledgement.
+   * @param maxInFlight Number of blocks sent before waiting for the oldest.
+   * @param onAcknowledged Called with the index of each acknowledged block.
    */
-  public async flashImage(image: ESPImage) {
+  private async sendPipelined(
+    count: number,
+    createPacket: (index: number) => EspCommandPacket,
+    timeout: number,
+    maxInFlight: number,
+    onAcknowledged: (index: number) => void,
+  ) {
+    const abort = new AbortController();
+    const inFlight: Promise<EspCommandPacket>[] = [];
+    let acknowledged = 0;
+
+    const acknowledgeOldest = async () => {
+      await inFlight.shift();
+      onAcknowledged(acknowledged++);
+    };
+
+    try {
+      for (let i = 0; i < count; i++) {
+        if (inFlight.length >= Math.max(1, maxInFlight)) {
+          await acknowledgeOldest();
+        }
+        const packet = createPacket(i);
+        const response = this.readResponse(
+          packet.command,
+          timeout,
+          abort.signal,
+        );
+        // Handled when the block becomes the oldest in flight.
+        response.catch(() => {});
+        inFlight.push(response);
+        await this.writeToConnection(packet.getSlipStreamEncodedPacketData());
+      }
+      while (inFlight.length > 0) {
+        await acknowledgeOldest();
+      }
+    } finally {
+      abort.abort(new Error("A preceding block failed."));
+    }
+  }
+
+  /**
+   * Asks the device for the MD5 digest of a flash region.
+   * @param offset Start address of the region.
+   * @param size Size of the region in bytes.
+   * @returns The digest as a lowercase hex string.
+   */
+  public async readFlashMd5(offset: number, size: number): Promise<string> {
+    this.assertNotSecureDownloadMode("Reading the flash MD5");
+    const md5Cmd = new EspCommandSpiFlashMD5(offset, size);
+    const timeout = Math.max(
+      2000,
+      Math.ceil((size / 0x100000) * MD5_TIMEOUT_PER_MB),
+    );
+    const response = await this.sendCommand(md5Cmd, timeout);
+    // The ROM answers with 32 hex characters, the stub with 16 raw bytes.
+    const digest = response.payload;
+    return digest.length === 16
+      ? toHex(digest)
+      : new TextDecoder().decode(digest.subarray(0, 32)).toLowerCase();
+  }
+
+  /**
+   * Checks that a written partition matches the data on the device.
+   * @param partition The partition to verify.
+   * @throws FlashVerificationError if the digests differ.
+   */
+  public async verifyPartition(partition: Partition) {
+    const { binary, offset } = partition;
+    const expected = md5Hex(binary);
+    const actual = await this.readFlashMd5(offset, binary.length);
+    if (actual !== expected) {
+      throw new FlashVerificationError(partition, offset, expected, actual);
+    }
+    console.log(`Verified ${partition.filename} (MD5 ${actual}).`);
+  }
+
+  /**
+   * Checks whether the device flash already holds a partition's data.
+   * @param partition The partition to compare.
+   * @returns True if the device's MD5 of the target region matches.
+   */
+  public async isPartitionUnchanged(partition: Partition): Promise<boolean> {
+    const { binary, offset } = partition;
+    const actual = await this.readFlashMd5(offset, binary.length);
+    return actual === md5Hex(binary);
+  }
+
+  /**
+   * Reads the app description (esp_app_desc_t) of the app image stored on
+   * the device, for example to show which firmware version it runs.
+   * @param offset Start address of the app partition.
+   * @returns The project name, version, IDF version, build date and time and
+   * ELF SHA-256 of the app.
+   * @throws Error if the partition holds no app image.
+   */
+  public async readAppDescription(offset: number): Promise<AppDescription> {
+    const binary = await this.readFlash(
+      offset,
+      APP_DESC_OFFSET + APP_DESC_SIZE,
+    );
+    return parseAppDescription(binary);
+  }
+
+  /**
+   * Reads a region of flash from the device. Starts the flasher stub if it is
+   * not running yet, as the ROM loader cannot read flash.
+   * @param offset Start address of the region.
+   * @param length Number of bytes to read.
+   * @returns The flash contents.
+   */
+  public async readFlash(offset: number, length: number): Promise<Uint8Array> {
+    if (!this.connection.connected) {
+      throw new Error("Device is not connected.");
+    }
+    await this.prepareFlashAccess();
+    this.assertNotSecureDownloadMode("Reading flash");
+
+    // The data frames follow the response straight away, so collect them
+    // from before the command is sent.
+    const frames = this.getResponseDispatcher().subscribe();
+    const readFrame = () => frames.next(5000);
+    const data = new Uint8Array(length);
+    let bytesRead = 0;
+
+    try {
+      const readCmd = new EspCommandReadFlash(offset, length);
+      await this.sendCommand(readCmd);
+
+      while (bytesRead < length) {
+        const packet = await readFrame();
+        if (bytesRead + packet.length > length) {
+          throw new Error("Received more flash data than requested.");
+        }
+        data.set(packet, bytesRead);
+        bytesRead += packet.length;
+
+        // Every packet is acknowledged with the total received so far.
+        const ack = new Uint8Array(4);
+        new DataView(ack.buffer).setUint32(0, bytesRead, true);
+        await this.writeToConnection(slipEncode(ack));
+
+        const detail: ReadFlashProgress = {
+          progress: (bytesRead / length) * 100,
+          offset,
+          bytesRead,
+          totalBytes: length,
+        };
+        this.dispatchEvent(new CustomEvent("read-progress", { detail }));
+      }
+
+      const actual = toHex(await readFrame());
+      const expected = md5Hex(data);
+      if (actual !== expected) {
+        throw new Error(
+          `MD5 mismatch after reading flash: expected ${expected}, got ${actual}.`,
+        );
+      }
+    } finally {
+      frames.close();
+    }
+    return data;
+  }
+
+  /**
+   * Erases the entire flash chip. Starts the flasher stub if it is not
+   * running yet.
+   */
+  public async eraseFlash() {
+    if (!this.connection.connected) {
+      throw new Error("Device is not connected.");
+    }
+    await this.prepareFlashAccess();
+    this.assertNotSecureDownloadMode("Erasing flash");
+
+    console.log("Erasing flash (this may take a while)...");
+    const eraseCmd = new EspCommandEraseFlash();
+    const size = this.connection.flash?.size ?? 0;
+    const timeout = Math.max(
+      CHIP_ERASE_TIMEOUT,
+      Math.ceil((size / 0x100000) * ERASE_REGION_TIMEOUT_PER_MB),
+    );
+    await this.sendCommand(eraseCmd, timeout);
+    console.log("Flash erased.");
+  }
+
+  /**
+   * Erases a region of flash. Starts the flasher stub if it is not running
+   * yet.
+   * @param offset Start address of the region. Must be sector aligned.
+   * @param size Size of the region. Must be a multiple of the sector size.
+   */
+  public async eraseRegion(offset: number, size: number) {
+    if (offset % FLASH_SECTOR_SIZE !== 0) {
+      throw new Error(
+        `Erase offset 0x${offset.toString(16)} is not aligned to the 0x${FLASH_SECTOR_SIZE.toString(16)} byte sector size.`,
+      );
+    }
+    if (size <= 0 || size % FLASH_SECTOR_SIZE !== 0) {
+      throw new Error(
+        `Erase size 0x${size.toString(16)} is not a multiple of the 0x${FLASH_SECTOR_SIZE.toString(16)} byte sector size.`,
+      );
+    }
     if (!this.connection.connected) {
       throw new Error("Device is not connected.");
     }
+    await this.prepareFlashAccess();
+    this.assertNotSecureDownloadMode("Erasing a flash region");
 
+    const eraseCmd = new EspCommandEraseRegion(offset, size);
+    const timeout = Math.max(
+      2000,
+      Math.ceil((size / 0x100000) * ERASE_REGION_TIMEOUT_PER_MB),
+    );
+    await this.sendCommand(eraseCmd, timeout);
+    console.log(
+      `Erased 0x${size.toString(16)} bytes at 0x${offset.toString(16)}.`,
+    );
+  }
+
+  private dispatchFlashProgress(
+    partition: Partition,
+    bytesWritten: number,
+    compressedBytesWritten: number,
+    startedAt: number,
+    compressedTotalBytes = partition.binary.length,
+    skipped = false,
+  ) {
+    const { bytesPerSecond } = estimateThroughput(
+      startedAt,
+      bytesWritten,
+      partition.binary.length,
+    );
+    // The ETA follows the bytes on the wire, which is what the time is spent on.
+    const { etaSeconds } = estimateThroughput(
+      startedAt,
+      compressedBytesWritten,
+      compressedTotalBytes,
+    );
+    const detail: FlashProgress = {
+      progress: (compressedBytesWritten / compressedTotalBytes) * 100,
+      partition,
+      bytesWritten,
+      totalBytes: partition.binary.length,
+      compressedBytesWritten,
+      compressedTotalBytes,
+      skipped,
+      bytesPerSecond: skipped ? 0 : bytesPerSecond,
+      etaSeconds: skipped ? 0 : etaSeconds,
+    };
+    this.dispatchEvent(new CustomEvent("flash-progress", { detail }));
+  }
+
+  /**
+   * Syncs, detects the chip, starts the flasher stub and attaches the SPI
+   * flash, skipping the steps that are already done.
+   * @param baudRate Optional baud rate to switch to once the stub is running.
+   */
+  private async prepareFlashAccess(baudRate?: number) {
     if (!this.connection.synced) {
       const synced = await this.sync();
       if (!synced) {
@@ -678,38 +1721,117 @@ export class SerialController extends EventTarget {
       await this.detectChip();
     }
 
-    const stub = await this.getStubForChip(this.connection.chip!);
-    await this.uploadStub(stub);
+    // Secure download mode leaves only the ROM loader's flash commands.
+    const romOnly = this.connection.secureDownloadMode;
+    if (!this.connection.stubLoaded && !romOnly) {
+      const stub = await this.getStubForChip(this.connection.chip!);
+      await this.uploadStub(stub);
+    }
+
+    if (baudRate) {
+      await this.changeBaudRate(baudRate);
+    }
 
     const attachCmd = new EspCommandSpiAttach();
-    await this.writeToConnection(attachCmd.getSlipStreamEncodedPacketData());
-    await this.readResponse(EspCommand.SPI_ATTACH);
+    await this.sendCommand(attachCmd);
     console.log("SPI_ATTACH successful.");
 
-    const setParamsCmd = new EspCommandSpiSetParams();
-    await this.writeToConnection(setParamsCmd.getSlipStreamEncodedPacketData());
-    await this.readResponse(EspCommand.SPI_SET_PARAMS);
+    const flash =
+      this.connection.flash ?? (romOnly ? null : await this.detectFlash());
+    const spiDefaults = getChipTarget(this.connection.chip!).spiDefaults;
+    const setParamsCmd = new EspCommandSpiSetParams({
+      ...spiDefaults,
+      totalSize: flash?.size ?? spiDefaults.totalSize,
+    });
+    await this.sendCommand(setParamsCmd);
     console.log("SPI_SET_PARAMS successful.");
+  }
+
+  /**
+   * Main method to flash a complete image.
+   * @param image The ESPImage to flash.
+   * @param options Flashing options.
+   */
+  public async flashImage(image: ESPImage, options: FlashImageOptions = {}) {
+    if (!this.connection.connected) {
+      throw new Error("Device is not connected.");
+    }
+
+    await this.prepareFlashAccess(options.baudRate);
+
+    const chip = this.connection.chip!;
+    if (image.chip !== undefined && image.chip !== chip) {
+      throw new Error(
+        `The image is for ${getChipTarget(image.chip).name}, but the device is ${getChipTarget(chip).name}.`,
+      );
+    }
+    image.setChip(chip);
+    for (const partition of image.partitions) {
+      this.assertImageMatchesChip(partition, chip);
+    }
+    const partitions = await this.patchBootloaderFlashParams(image, options);
 
-    const totalSize = image.partitions.reduce(
+    const secureDownloadMode = this.connection.secureDownloadMode;
+    if (secureDownloadMode) {
+      if (options.verify) {
+        throw new SecureDownloadModeError("Verifying written data");
+      }
+      if (options.skipUnchanged) {
+        throw new SecureDownloadModeError("Skipping unchanged partitions");
+      }
+      if (options.eraseAll) {
+        throw new SecureDownloadModeError("Erasing the whole flash");
+      }
+      console.log(
+        "Secure download mode: flashing through the ROM loader without verification.",
+      );
+    }
+
+    const flashSize = this.connection.flash?.size;
+    if (flashSize) {
+      for (const partition of partitions) {
+        const end = partition.offset + partition.binary.length;
+        if (end > flashSize) {
+          throw new Error(
+            `${partition.filename} ends at 0x${end.toString(16)}, past the end of the ${flashSize / 0x100000}MB flash.`,
+          );
+        }
+      }
+    }
+
+    if (options.eraseAll) {
+      await this.eraseFlash();
+    }
+
+    const totalSize = partitions.reduce(
       (acc, part) => acc + part.binary.length,
       0,
     );
     let flashedSize = 0;
+    const startedAt = Date.now();
 
-    for (const partition of image.partitions) {
+    for (const partition of partitions) {
       const originalDispatchEvent = this.dispatchEvent;
       this.dispatchEvent = (event: Event) => {
         if (event.type === "flash-progress" && "detail" in event) {
-          const partitionFlashed =
-            (partition.binary.length * (event as CustomEvent).detail.progress) /
-            100;
+          const detail = (event as CustomEvent<FlashProgress>).detail;
+          const bytesWritten = flashedSize + detail.bytesWritten;
+          const { bytesPerSecond, etaSeconds } = estimateThroughput(
+            startedAt,
+            bytesWritten,
+            totalSize,
+          );
           originalDispatchEvent.call(
             this,
             new CustomEvent("flash-image-progress", {
               detail: {
-                progress: ((flashedSize + partitionFlashed) / totalSize) * 100,
+                progress: (bytesWritten / totalSize) * 100,
                 partition: partition,
+                bytesWritten,
+                totalBytes: totalSize,
+                skipped: detail.skipped,
+                bytesPerSecond,
+                etaSeconds,
               },
             }),
           );
@@ -717,19 +1839,92 @@ export class SerialController extends EventTarget {
         return originalDispatchEvent.call(this, event);
       };
 
-      await this.flashPartition(partition);
+      let skipped = false;
+      try {
+        if (
+          options.skipUnchanged &&
+          (await this.isPartitionUnchanged(partition))
+        ) {
+          console.log(`Skipping ${partition.filename}, contents unchanged.`);
+          const size = partition.binary.length;
+          this.dispatchFlashProgress(
+            partition,
+            size,
+            size,
+            Date.now(),
+            size,
+            true,
+          );
+          skipped = true;
+        } else {
+          await this.flashPartition(partition, {
+            compress: options.compress,
+            maxInFlight: options.maxInFlight,
+          });
+        }
+      } finally {
+        this.dispatchEvent = originalDispatchEvent;
+      }
+      if (!skipped && (options.verify ?? !secureDownloadMode)) {
+        await this.verifyPartition(partition);
+      }
       flashedSize += partition.binary.length;
-      this.dispatchEvent = originalDispatchEvent;
     }
 
     this.dispatchEvent(
       new CustomEvent("flash-image-progress", {
-        detail: { progress: 100 },
+        detail: {
+          progress: 100,
+          bytesWritten: totalSize,
+          totalBytes: totalSize,
+          ...estimateThroughput(startedAt, totalSize, totalSize),
+        },
       }),
     );
 
-    console.log("Flashing complete. Resetting device...");
-    await this.sendResetPulse();
+    const after = options.after ?? "hard-reset";
+    if (after === "stay-in-loader") {
+      console.log("Flashing complete. Staying in the loader.");
+      return;
+    }
+    console.log(`Flashing complete. Resetting device (${after})...`);
+    if (after === "soft-reset") {
+      await this.softReset();
+    }
+
+    if (this.connection.baudRate !== this.serialOptions.baudRate) {
+      // The app will log at the rate the port was originally opened at.
+      await this.reopenPort(this.serialOptions.baudRate);
+    }
+
+    if (after === "hard-reset") {
+      await this.sendResetPulse(this.resetOptions.after ?? "hard-reset");
+    }
     console.log("Device has been reset.");
   }
+
+  /**
+   * Starts the application without touching the reset lines: through
+   * RUN_USER_CODE while the stub runs, or an empty FLASH_BEGIN followed by
+   * FLASH_END on the ROM loader.
+   */
+  public async softReset() {
+    if (this.connection.stubLoaded) {
+      const runCmd = new EspCommandRunUserCode();
+      await this.writeToConnection(runCmd.getSlipStreamEncodedPacketData());
+    } else {
+      const beginCmd = new EspCommandFlashBegin(
+        new Uint8Array(0),
+        0,
+        0,
+        0,
+        this.romEncryptedFlag(),
+      );
+      await this.sendCommand(beginCmd);
+      const endCmd = new EspCommandFlashEnd(true);
+      await this.sendCommand(endCmd);
+    }
+    this.connection.synced = false;
+    this.connection.stubLoaded = false;
+  }
 }
@@ -0,0 +1,39 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect } from "vitest";
+import { decodeFlashId } from "./spi-flash";
+
+describe("decodeFlashId", () => {
+  it("should decode a Winbond 16MB flash", () => {
+    expect(decodeFlashId(0x1840ef)).toEqual({
+      manufacturer: 0xef,
+      manufacturerName: "Winbond",
+      deviceId: 0x4018,
+      size: 16 * 1024 * 1024,
+    });
+  });
+
+  it("should decode vendor specific capacity codes", () => {
+    expect(decodeFlashId(0x3980c8).size).toBe(32 * 1024 * 1024);
+  });
+
+  it("should report unknown manufacturers and sizes", () => {
+    const info = decodeFlashId(0xff0001);
+    expect(info.manufacturerName).toBe("Unknown");
+    expect(info.size).toBeNull();
+  });
+});
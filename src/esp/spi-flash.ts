@@ -0,0 +1,95 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * SPI flash command that reads the 3-byte JEDEC ID.
+ */
+export const SPIFLASH_RDID = 0x9f;
+
+/**
+ * Information about the SPI flash chip, decoded from its JEDEC ID.
+ */
+export interface FlashInfo {
+  /** JEDEC manufacturer ID. */
+  manufacturer: number;
+  /** Manufacturer name, or "Unknown" if the ID is not in the table. */
+  manufacturerName: string;
+  /** Memory type and capacity bytes, as esptool prints them. */
+  deviceId: number;
+  /** Flash size in bytes. Null if the capacity byte is not recognised. */
+  size: number | null;
+}
+
+const MANUFACTURERS: Record<number, string> = {
+  0x0b: "XTX",
+  0x1c: "EON",
+  0x20: "XMC",
+  0x5e: "Zbit",
+  0x68: "Boya",
+  0x85: "Puya",
+  0x9d: "ISSI",
+  0xa1: "Fudan",
+  0xc2: "Macronix",
+  0xc8: "GigaDevice",
+  0xef: "Winbond",
+};
+
+/**
+ * Capacity bytes and the flash sizes they stand for. Most vendors encode the
+ * size as a power of two, a few use their own ranges.
+ */
+const FLASH_SIZES: Record<number, number> = {
+  0x12: 256 * 1024,
+  0x13: 512 * 1024,
+  0x14: 1024 * 1024,
+  0x15: 2 * 1024 * 1024,
+  0x16: 4 * 1024 * 1024,
+  0x17: 8 * 1024 * 1024,
+  0x18: 16 * 1024 * 1024,
+  0x19: 32 * 1024 * 1024,
+  0x1a: 64 * 1024 * 1024,
+  0x1b: 128 * 1024 * 1024,
+  0x1c: 256 * 1024 * 1024,
+  0x20: 64 * 1024 * 1024,
+  0x21: 128 * 1024 * 1024,
+  0x22: 256 * 1024 * 1024,
+  0x32: 256 * 1024,
+  0x33: 512 * 1024,
+  0x34: 1024 * 1024,
+  0x35: 2 * 1024 * 1024,
+  0x36: 4 * 1024 * 1024,
+  0x37: 8 * 1024 * 1024,
+  0x38: 16 * 1024 * 1024,
+  0x39: 32 * 1024 * 1024,
+  0x3a: 64 * 1024 * 1024,
+};
+
+/**
+ * Decodes the value the flash returns for RDID.
+ * @param jedecId The 24-bit ID: manufacturer in the low byte, then memory
+ * type, then capacity.
+ */
+export function decodeFlashId(jedecId: number): FlashInfo {
+  const manufacturer = jedecId & 0xff;
+  const memoryType = (jedecId >> 8) & 0xff;
+  const capacity = (jedecId >> 16) & 0xff;
+  return {
+    manufacturer,
+    manufacturerName: MANUFACTURERS[manufacturer] ?? "Unknown",
+    deviceId: (memoryType << 8) | capacity,
+    size: FLASH_SIZES[capacity] ?? null,
+  };
+}
@@ -22,6 +22,7 @@ import {
   SlipStreamEncoder,
   SlipStreamDecoder,
 } from "./stream-transformers";
+import { slipEncode } from "../utils/common";
 
 // Helper function to read everything from a stream until it's closed
 async function readAllChunks(reader: ReadableStreamDefaultReader<Uint8Array>) {
@@ -254,6 +255,19 @@ describe("SlipStreamDecoder", () => {
     expect(value).toEqual(expected);
   });
 
+  it("should decode frames larger than its initial buffer", async () => {
+    const decoder = new SlipStreamDecoder();
+    const writer = decoder.writable.getWriter();
+    const reader = decoder.readable.getReader();
+
+    const frame = Uint8Array.from({ length: 5000 }, (_, i) => i & 0xff);
+    const readPromise = reader.read();
+    await writer.write(slipEncode(frame));
+
+    const { value } = await readPromise;
+    expect(value).toEqual(frame);
+  });
+
   it("should ignore data before the first END byte", async () => {
     const decoder = new SlipStreamDecoder();
     const writer = decoder.writable.getWriter();
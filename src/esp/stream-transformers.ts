@@ -14,7 +14,7 @@
  * limitations under the License.
  */
 
-import { SlipStreamBytes } from "../utils/common";
+import { SlipStreamBytes, slipEncode } from "../utils/common";
 
 /**
  * A generic string logging transformer.
@@ -88,12 +88,15 @@ class LineBreakTransformer implements Transformer<string, string> {
  * Implements the SLIP (Serial Line Internet Protocol) encoding and decoding logic.
  * This transformer can be configured to operate in either encoding or decoding mode.
  */
-export class SlipStreamTransformer
-  implements Transformer<Uint8Array, Uint8Array>
-{
+export class SlipStreamTransformer implements Transformer<
+  Uint8Array,
+  Uint8Array
+> {
   private decoding = false; // Flag to indicate if the initial END byte for a packet has been received in decoding mode.
   private escape = false; // Flag to indicate if the current byte is an escape character in decoding mode.
-  private frame: number[] = []; // Buffer to accumulate bytes for the current frame.
+  private frame = new Uint8Array(256); // Reused buffer for the frame being decoded, grown as needed.
+  private frameLength = 0; // Number of bytes of the current frame in the buffer.
+  private chunks: Uint8Array[] = []; // Chunks to encode into a single frame on flush.
 
   /**
    * Constructs a new SlipStreamTransformer.
@@ -110,20 +113,21 @@ export class SlipStreamTransformer
     controller: TransformStreamDefaultController<Uint8Array>,
   ) {
     if (this.mode === "decoding") {
-      for (const byte of chunk) {
+      for (let i = 0; i < chunk.length; i++) {
+        const byte = chunk[i];
         // State machine for decoding SLIP frames
         if (this.decoding) {
           // Currently inside a frame
           if (this.escape) {
             // Previous byte was ESC
             if (byte === SlipStreamBytes.ESC_END) {
-              this.frame.push(SlipStreamBytes.END);
+              this.appendToFrame(SlipStreamBytes.END);
             } else if (byte === SlipStreamBytes.ESC_ESC) {
-              this.frame.push(SlipStreamBytes.ESC);
+              this.appendToFrame(SlipStreamBytes.ESC);
             } else {
               // This case should ideally not happen in a valid SLIP stream,
               // but we'll add the byte as is to be robust.
-              this.frame.push(byte);
+              this.appendToFrame(byte);
             }
             this.escape = false;
           } else if (byte === SlipStreamBytes.ESC) {
@@ -131,58 +135,53 @@ export class SlipStreamTransformer
             this.escape = true;
           } else if (byte === SlipStreamBytes.END) {
             // End of the current frame
-            if (this.frame.length > 0) {
-              controller.enqueue(new Uint8Array(this.frame));
+            if (this.frameLength > 0) {
+              controller.enqueue(this.frame.slice(0, this.frameLength));
             }
-            this.frame = []; // Reset frame buffer for the next packet
+            this.frameLength = 0; // Reset frame buffer for the next packet
             // this.decoding remains true as we might receive multiple packets
           } else {
             // Regular data byte
-            this.frame.push(byte);
+            this.appendToFrame(byte);
           }
         } else if (byte === SlipStreamBytes.END) {
           // Start of a new frame (or end of a previous one, signaling start of a new one)
           this.decoding = true;
-          this.frame = []; // Clear any previous partial frame data
+          this.frameLength = 0; // Clear any previous partial frame data
           this.escape = false;
         }
         // Bytes received before the first END in decoding mode are ignored.
       }
     } else {
-      // Encoding mode: Escapes special SLIP bytes (END, ESC) in the input chunk
-      // and accumulates them in an internal buffer. The actual packet framing
-      // with END bytes is handled in the flush method.
-      for (const byte of chunk) {
-        if (byte === SlipStreamBytes.END) {
-          this.frame.push(SlipStreamBytes.ESC, SlipStreamBytes.ESC_END);
-        } else if (byte === SlipStreamBytes.ESC) {
-          this.frame.push(SlipStreamBytes.ESC, SlipStreamBytes.ESC_ESC);
-        } else {
-          this.frame.push(byte);
-        }
-      }
+      // Encoding mode: Keeps the chunks as they are. Escaping and framing
+      // with END bytes happen in one pass in the flush method.
+      this.chunks.push(chunk);
     }
   }
 
   flush(controller: TransformStreamDefaultController<Uint8Array>) {
     if (this.mode === "encoding") {
-      // For encoding mode, wraps the accumulated frame buffer with SLIP END bytes
-      // to form a complete packet, then enqueues it.
+      // For encoding mode, escapes the accumulated chunks and wraps them with
+      // SLIP END bytes to form a complete packet, then enqueues it.
       // Only enqueue if there's data to send to avoid empty packets.
-      if (this.frame.length > 0) {
-        const finalPacket = new Uint8Array([
-          SlipStreamBytes.END,
-          ...this.frame,
-          SlipStreamBytes.END,
-        ]);
-        controller.enqueue(finalPacket);
-        this.frame = []; // Clear the frame buffer after flushing
+      if (this.chunks.some((chunk) => chunk.length > 0)) {
+        controller.enqueue(slipEncode(...this.chunks));
       }
+      this.chunks = []; // Clear the buffered chunks after flushing
     }
     // The decoder does not need any specific flush logic, as partial frames
     // are handled by the transform method. Any remaining data in `this.frame`
     // when the stream closes is considered an incomplete packet and is discarded.
   }
+
+  private appendToFrame(byte: number) {
+    if (this.frameLength === this.frame.length) {
+      const grown = new Uint8Array(this.frame.length * 2);
+      grown.set(this.frame);
+      this.frame = grown;
+    }
+    this.frame[this.frameLength++] = byte;
+  }
 }
 
 /**
@@ -0,0 +1,90 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  APP_DESC_MAGIC,
+  APP_DESC_OFFSET,
+  parseAppDescription,
+} from "./app-description";
+
+/**
+ * Builds the start of an app image whose first segment holds an
+ * esp_app_desc_t.
+ */
+function buildAppImageStart(magic = APP_DESC_MAGIC): Uint8Array {
+  const binary = new Uint8Array(APP_DESC_OFFSET + 256);
+  const view = new DataView(binary.buffer);
+  const encoder = new TextEncoder();
+  view.setUint8(0, 0xe9);
+  view.setUint8(1, 4);
+  view.setUint32(24, 0x3c000020, true);
+  view.setUint32(28, 0x1000, true);
+
+  const desc = binary.subarray(APP_DESC_OFFSET);
+  view.setUint32(APP_DESC_OFFSET, magic, true);
+  view.setUint32(APP_DESC_OFFSET + 4, 3, true);
+  desc.set(encoder.encode("v1.4.2-3-gabcdef"), 16);
+  desc.set(encoder.encode("hello_world"), 48);
+  desc.set(encoder.encode("12:34:56"), 80);
+  desc.set(encoder.encode("Oct 19 2026"), 96);
+  desc.set(encoder.encode("v5.3.1"), 112);
+  desc.set(
+    Uint8Array.from({ length: 32 }, (_, i) => i),
+    144,
+  );
+  return binary;
+}
+
+describe("parseAppDescription", () => {
+  it("should read the app description of an app image", () => {
+    expect(parseAppDescription(buildAppImageStart())).toEqual({
+      secureVersion: 3,
+      version: "v1.4.2-3-gabcdef",
+      projectName: "hello_world",
+      compileTime: "12:34:56",
+      compileDate: "Oct 19 2026",
+      idfVersion: "v5.3.1",
+      elfSha256:
+        "000102030405060708090a0b0c0d0e0f101112131415161718191a1b1c1d1e1f",
+    });
+  });
+
+  it("should read a string that fills its whole field", () => {
+    const binary = buildAppImageStart();
+    binary.fill(0x41, APP_DESC_OFFSET + 48, APP_DESC_OFFSET + 80);
+
+    expect(parseAppDescription(binary).projectName).toBe("A".repeat(32));
+  });
+
+  it("should reject an image without an app description", () => {
+    expect(() => parseAppDescription(buildAppImageStart(0xffffffff))).toThrow(
+      "No app description found: magic 0xffffffff, expected 0xabcd5432.",
+    );
+  });
+
+  it("should reject a binary that is not an app image", () => {
+    expect(() => parseAppDescription(new Uint8Array(288).fill(0xff))).toThrow(
+      "Invalid image magic: 0xff, expected 0xe9.",
+    );
+  });
+
+  it("should reject a binary cut off before the end of the description", () => {
+    expect(() =>
+      parseAppDescription(buildAppImageStart().subarray(0, 100)),
+    ).toThrow("Image is too short for an app description.");
+  });
+});
@@ -0,0 +1,100 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { toHex } from "../utils/common";
+import { parseAppImageHeader } from "./app-image";
+
+/**
+ * Magic word at the start of esp_app_desc_t.
+ */
+export const APP_DESC_MAGIC = 0xabcd5432;
+
+/**
+ * The app description is the start of the first segment, right after the
+ * image header and the first segment header.
+ */
+export const APP_DESC_OFFSET = 32;
+
+/** Size of esp_app_desc_t. */
+export const APP_DESC_SIZE = 256;
+
+/**
+ * The esp_app_desc_t an ESP-IDF app embeds in its first segment.
+ */
+export interface AppDescription {
+  /** Anti-rollback version used by secure boot. */
+  secureVersion: number;
+  /** App version, PROJECT_VER or the git describe output. */
+  version: string;
+  projectName: string;
+  /** Compile time, as __TIME__. */
+  compileTime: string;
+  /** Compile date, as __DATE__. */
+  compileDate: string;
+  /** ESP-IDF version the app was built with. */
+  idfVersion: string;
+  /** SHA-256 of the app's ELF file, as lowercase hex. */
+  elfSha256: string;
+}
+
+/**
+ * Reads the app description of an app image. Only the first
+ * APP_DESC_OFFSET + APP_DESC_SIZE bytes are needed, so a partial read of an
+ * app partition is enough.
+ * @param binary The app image, starting at its first byte.
+ * @throws Error if the binary is not an app image or has no app description,
+ * as is the case for bootloader images.
+ */
+export function parseAppDescription(binary: Uint8Array): AppDescription {
+  const header = parseAppImageHeader(binary);
+  if (
+    header.segmentCount === 0 ||
+    binary.length < APP_DESC_OFFSET + APP_DESC_SIZE
+  ) {
+    throw new Error("Image is too short for an app description.");
+  }
+
+  const desc = binary.subarray(
+    APP_DESC_OFFSET,
+    APP_DESC_OFFSET + APP_DESC_SIZE,
+  );
+  const view = new DataView(desc.buffer, desc.byteOffset, desc.length);
+  const magic = view.getUint32(0, true);
+  if (magic !== APP_DESC_MAGIC) {
+    throw new Error(
+      `No app description found: magic 0x${magic.toString(16)}, expected 0x${APP_DESC_MAGIC.toString(16)}.`,
+    );
+  }
+
+  return {
+    secureVersion: view.getUint32(4, true),
+    version: readString(desc, 16, 32),
+    projectName: readString(desc, 48, 32),
+    compileTime: readString(desc, 80, 16),
+    compileDate: readString(desc, 96, 16),
+    idfVersion: readString(desc, 112, 32),
+    elfSha256: toHex(desc.subarray(144, 176)),
+  };
+}
+
+/**
+ * Reads a NUL-terminated string from a fixed size field.
+ */
+function readString(data: Uint8Array, offset: number, length: number): string {
+  const field = data.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return new TextDecoder().decode(end === -1 ? field : field.subarray(0, end));
+}
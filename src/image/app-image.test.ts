@@ -0,0 +1,208 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  ESP_IMAGE_MAGIC,
+  ImageFlashMode,
+  parseAppImage,
+  parseAppImageHeader,
+  parseAppImageLayout,
+  patchImageFlashParams,
+} from "./app-image";
+
+interface TestSegment {
+  loadAddress: number;
+  data: Uint8Array;
+}
+
+/**
+ * Builds an image the way esptool's elf2image lays it out.
+ */
+async function buildImage(
+  segments: TestSegment[],
+  { chipId = 5, hashAppended = true } = {},
+): Promise<Uint8Array> {
+  const bodyLength = segments.reduce((sum, s) => sum + 8 + s.data.length, 24);
+  const checksumOffset = bodyLength + (15 - (bodyLength % 16));
+  const image = new Uint8Array(checksumOffset + 1 + (hashAppended ? 32 : 0));
+  const view = new DataView(image.buffer);
+  view.setUint8(0, ESP_IMAGE_MAGIC);
+  view.setUint8(1, segments.length);
+  view.setUint8(2, ImageFlashMode.DIO);
+  view.setUint8(3, 0x2f); // 4MB, 80MHz
+  view.setUint32(4, 0x40380000, true);
+  view.setUint8(8, 0xee);
+  view.setUint16(12, chipId, true);
+  view.setUint16(15, 3, true);
+  view.setUint16(17, 199, true);
+  view.setUint8(23, hashAppended ? 1 : 0);
+
+  let offset = 24;
+  let checksum = 0xef;
+  for (const segment of segments) {
+    view.setUint32(offset, segment.loadAddress, true);
+    view.setUint32(offset + 4, segment.data.length, true);
+    image.set(segment.data, offset + 8);
+    offset += 8 + segment.data.length;
+    checksum = segment.data.reduce((cs, byte) => cs ^ byte, checksum);
+  }
+  image[checksumOffset] = checksum;
+  if (hashAppended) {
+    const digest = await crypto.subtle.digest(
+      "SHA-256",
+      image.slice(0, checksumOffset + 1),
+    );
+    image.set(new Uint8Array(digest), checksumOffset + 1);
+  }
+  return image;
+}
+
+const SEGMENTS: TestSegment[] = [
+  { loadAddress: 0x3c000020, data: new Uint8Array([1, 2, 3, 4, 5, 6, 7, 8]) },
+  { loadAddress: 0x40380000, data: new Uint8Array(0x21).fill(0x5a) },
+];
+
+describe("parseAppImageHeader", () => {
+  it("should decode the header and extended header", async () => {
+    const header = parseAppImageHeader(await buildImage(SEGMENTS));
+
+    expect(header).toEqual({
+      segmentCount: 2,
+      flashMode: ImageFlashMode.DIO,
+      flashFrequency: 0xf,
+      flashSize: 4 * 1024 * 1024,
+      entryPoint: 0x40380000,
+      chipId: 5,
+      minChipRevision: 3,
+      maxChipRevision: 199,
+      hashAppended: true,
+    });
+  });
+
+  it("should reject a binary without the image magic", () => {
+    expect(() => parseAppImageHeader(new Uint8Array(24))).toThrow(
+      "Invalid image magic: 0x0, expected 0xe9.",
+    );
+  });
+
+  it("should reject a binary shorter than the header", () => {
+    expect(() =>
+      parseAppImageHeader(new Uint8Array([ESP_IMAGE_MAGIC, 1])),
+    ).toThrow("Image is too short for a header: 2 bytes.");
+  });
+});
+
+describe("parseAppImageLayout", () => {
+  it("should locate each segment and the checksum", async () => {
+    const image = await buildImage(SEGMENTS);
+    const layout = parseAppImageLayout(image);
+
+    expect(layout.segments).toEqual([
+      { loadAddress: 0x3c000020, length: 8, dataOffset: 32 },
+      { loadAddress: 0x40380000, length: 0x21, dataOffset: 48 },
+    ]);
+    // 81 bytes of header and segments, padded to end a 16 byte block.
+    expect(layout.checksumOffset).toBe(95);
+    expect(layout.length).toBe(image.length);
+  });
+
+  it("should reject a segment that runs past the end of the image", async () => {
+    const image = await buildImage(SEGMENTS);
+
+    expect(() => parseAppImageLayout(image.subarray(0, 60))).toThrow(
+      "Segment 1 (33 bytes at 0x40380000) runs past the end of the image.",
+    );
+  });
+
+  it("should reject an image cut off before its digest", async () => {
+    const image = await buildImage(SEGMENTS);
+
+    expect(() => parseAppImageLayout(image.subarray(0, 100))).toThrow(
+      "Image is truncated: 100 bytes, expected 128.",
+    );
+  });
+});
+
+describe("parseAppImage", () => {
+  it("should validate the checksum and SHA-256 digest", async () => {
+    const image = await parseAppImage(await buildImage(SEGMENTS));
+
+    expect(image.checksumValid).toBe(true);
+    expect(image.sha256).toHaveLength(32);
+    expect(image.sha256Valid).toBe(true);
+  });
+
+  it("should report a corrupted segment", async () => {
+    const binary = await buildImage(SEGMENTS);
+    binary[50] ^= 0xff;
+
+    const image = await parseAppImage(binary);
+
+    expect(image.checksumValid).toBe(false);
+    expect(image.sha256Valid).toBe(false);
+  });
+
+  it("should report a null digest for images without one", async () => {
+    const image = await parseAppImage(
+      await buildImage(SEGMENTS, { hashAppended: false }),
+    );
+
+    expect(image.checksumValid).toBe(true);
+    expect(image.sha256).toBeNull();
+    expect(image.sha256Valid).toBeNull();
+  });
+});
+
+describe("patchImageFlashParams", () => {
+  it("should rewrite the flash parameters and the digest", async () => {
+    const binary = await buildImage(SEGMENTS);
+
+    const patched = await patchImageFlashParams(binary, {
+      flashMode: ImageFlashMode.QIO,
+      flashFrequency: 0x0,
+      flashSize: 16 * 1024 * 1024,
+    });
+
+    const image = await parseAppImage(patched);
+    expect(image.header.flashMode).toBe(ImageFlashMode.QIO);
+    expect(image.header.flashFrequency).toBe(0x0);
+    expect(image.header.flashSize).toBe(16 * 1024 * 1024);
+    expect(image.checksumValid).toBe(true);
+    expect(image.sha256Valid).toBe(true);
+    expect(patched.subarray(24, 95)).toEqual(binary.subarray(24, 95));
+    expect(binary[2]).toBe(ImageFlashMode.DIO);
+  });
+
+  it("should keep the parameters that are not given", async () => {
+    const binary = await buildImage(SEGMENTS);
+
+    const patched = await patchImageFlashParams(binary, { flashFrequency: 2 });
+
+    expect(patched[2]).toBe(ImageFlashMode.DIO);
+    expect(patched[3]).toBe(0x22);
+  });
+
+  it("should reject a flash size the header cannot hold", async () => {
+    const binary = await buildImage(SEGMENTS);
+
+    await expect(
+      patchImageFlashParams(binary, { flashSize: 3 * 1024 * 1024 }),
+    ).rejects.toThrow(
+      "Unsupported flash size for the image header: 3145728 bytes.",
+    );
+  });
+});
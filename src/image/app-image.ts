@@ -0,0 +1,283 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * First byte of every application and bootloader image (esp_image_header_t).
+ */
+export const ESP_IMAGE_MAGIC = 0xe9;
+
+const IMAGE_HEADER_SIZE = 24;
+const SEGMENT_HEADER_SIZE = 8;
+/** ESP_IMAGE_MAX_SEGMENTS in ESP-IDF. */
+const MAX_SEGMENTS = 16;
+const CHECKSUM_SEED = 0xef;
+const SHA256_LENGTH = 32;
+
+/**
+ * SPI flash modes of the image header.
+ */
+export enum ImageFlashMode {
+  QIO = 0,
+  QOUT = 1,
+  DIO = 2,
+  DOUT = 3,
+}
+
+/**
+ * The image header with its extended part.
+ */
+export interface AppImageHeader {
+  segmentCount: number;
+  flashMode: ImageFlashMode;
+  /**
+   * Raw flash frequency value. Its meaning depends on the chip, see
+   * `ChipTarget.flashFrequencies`.
+   */
+  flashFrequency: number;
+  /** Flash size in bytes. */
+  flashSize: number;
+  /** Address the ROM or bootloader jumps to after loading the image. */
+  entryPoint: number;
+  /** Chip ID the image is built for, see `ChipTarget.chipId`. */
+  chipId: number;
+  /** Minimum chip revision, as major * 100 + minor. */
+  minChipRevision: number;
+  /** Maximum chip revision, as major * 100 + minor. */
+  maxChipRevision: number;
+  /** A SHA-256 digest of the image follows the checksum. */
+  hashAppended: boolean;
+}
+
+/**
+ * A segment the image loads into memory.
+ */
+export interface AppImageSegment {
+  /** Address the segment is loaded to. */
+  loadAddress: number;
+  /** Length of the segment data in bytes. */
+  length: number;
+  /** Offset of the segment data within the image. */
+  dataOffset: number;
+}
+
+/**
+ * Structure of an image as laid out in the binary, without validation.
+ */
+export interface AppImageLayout {
+  header: AppImageHeader;
+  segments: AppImageSegment[];
+  /** Offset of the checksum byte, which ends a 16 byte aligned block. */
+  checksumOffset: number;
+  /** Length of the image including the checksum and any appended digest. */
+  length: number;
+}
+
+/**
+ * A parsed and validated image.
+ */
+export interface AppImage extends AppImageLayout {
+  /** The checksum stored in the image. */
+  checksum: number;
+  /** The stored checksum matches the XOR of all segment data. */
+  checksumValid: boolean;
+  /** The appended SHA-256 digest, or null if the image has none. */
+  sha256: Uint8Array | null;
+  /** The digest matches the image contents. Null if the image has none. */
+  sha256Valid: boolean | null;
+}
+
+/**
+ * Reads the image header. Only ESP32-family images are supported; ESP8266
+ * images have no extended header.
+ * @param binary The image, starting at its first byte.
+ * @throws Error if the binary is too short or does not start with the magic.
+ */
+export function parseAppImageHeader(binary: Uint8Array): AppImageHeader {
+  if (binary.length < IMAGE_HEADER_SIZE) {
+    throw new Error(`Image is too short for a header: ${binary.length} bytes.`);
+  }
+  if (binary[0] !== ESP_IMAGE_MAGIC) {
+    throw new Error(
+      `Invalid image magic: 0x${binary[0].toString(16)}, expected 0x${ESP_IMAGE_MAGIC.toString(16)}.`,
+    );
+  }
+  const view = new DataView(binary.buffer, binary.byteOffset, binary.length);
+  return {
+    segmentCount: view.getUint8(1),
+    flashMode: view.getUint8(2),
+    flashFrequency: view.getUint8(3) & 0x0f,
+    flashSize: 0x100000 << (view.getUint8(3) >> 4),
+    entryPoint: view.getUint32(4, true),
+    chipId: view.getUint16(12, true),
+    minChipRevision: view.getUint16(15, true),
+    maxChipRevision: view.getUint16(17, true),
+    hashAppended: view.getUint8(23) === 1,
+  };
+}
+
+/**
+ * Reads the header and segment table and locates the checksum.
+ * @param binary The image, starting at its first byte.
+ * @throws Error if the header is invalid or the segments do not fit.
+ */
+export function parseAppImageLayout(binary: Uint8Array): AppImageLayout {
+  const header = parseAppImageHeader(binary);
+  if (header.segmentCount > MAX_SEGMENTS) {
+    throw new Error(
+      `Image has ${header.segmentCount} segments, at most ${MAX_SEGMENTS} are allowed.`,
+    );
+  }
+
+  const view = new DataView(binary.buffer, binary.byteOffset, binary.length);
+  const segments: AppImageSegment[] = [];
+  let offset = IMAGE_HEADER_SIZE;
+  for (let i = 0; i < header.segmentCount; i++) {
+    if (offset + SEGMENT_HEADER_SIZE > binary.length) {
+      throw new Error(`Image ends inside the header of segment ${i}.`);
+    }
+    const loadAddress = view.getUint32(offset, true);
+    const length = view.getUint32(offset + 4, true);
+    const dataOffset = offset + SEGMENT_HEADER_SIZE;
+    if (dataOffset + length > binary.length) {
+      throw new Error(
+        `Segment ${i} (${length} bytes at 0x${loadAddress.toString(16)}) runs past the end of the image.`,
+      );
+    }
+    segments.push({ loadAddress, length, dataOffset });
+    offset = dataOffset + length;
+  }
+
+  // Padding puts the checksum in the last byte of a 16 byte block.
+  const checksumOffset = offset + (15 - (offset % 16));
+  const length = checksumOffset + 1 + (header.hashAppended ? SHA256_LENGTH : 0);
+  if (length > binary.length) {
+    throw new Error(
+      `Image is truncated: ${binary.length} bytes, expected ${length}.`,
+    );
+  }
+  return { header, segments, checksumOffset, length };
+}
+
+/**
+ * Computes the image checksum: the XOR of all segment data, seeded with 0xEF.
+ * @param binary The image.
+ * @param segments The segments of the image.
+ */
+export function computeImageChecksum(
+  binary: Uint8Array,
+  segments: AppImageSegment[],
+): number {
+  let checksum = CHECKSUM_SEED;
+  for (const { dataOffset, length } of segments) {
+    for (let i = dataOffset; i < dataOffset + length; i++) {
+      checksum ^= binary[i];
+    }
+  }
+  return checksum;
+}
+
+/**
+ * Flash parameters stored in bytes 2 and 3 of the image header. Omitted
+ * parameters are left as they are.
+ */
+export interface ImageFlashParams {
+  flashMode?: ImageFlashMode;
+  /** Raw flash frequency value, see `ChipTarget.flashFrequencies`. */
+  flashFrequency?: number;
+  /** Flash size in bytes, a power of two from 1MB to 128MB. */
+  flashSize?: number;
+}
+
+/**
+ * Returns a copy of an image with new flash parameters in its header, the
+ * way esptool adjusts a bootloader to the module it is written to. The
+ * checksum and any appended SHA-256 digest are recomputed.
+ * @param binary The image, starting at its first byte.
+ * @param params The parameters to change.
+ * @throws Error if the image is malformed or a parameter cannot be encoded.
+ */
+export async function patchImageFlashParams(
+  binary: Uint8Array,
+  params: ImageFlashParams,
+): Promise<Uint8Array> {
+  const layout = parseAppImageLayout(binary);
+  const patched = binary.slice();
+
+  if (params.flashMode !== undefined) {
+    patched[2] = params.flashMode;
+  }
+  if (params.flashFrequency !== undefined) {
+    if (params.flashFrequency < 0 || params.flashFrequency > 0xf) {
+      throw new Error(
+        `Invalid flash frequency value for the image header: ${params.flashFrequency}.`,
+      );
+    }
+    patched[3] = (patched[3] & 0xf0) | params.flashFrequency;
+  }
+  if (params.flashSize !== undefined) {
+    const sizeCode = Math.log2(params.flashSize / 0x100000);
+    if (!Number.isInteger(sizeCode) || sizeCode < 0 || sizeCode > 7) {
+      throw new Error(
+        `Unsupported flash size for the image header: ${params.flashSize} bytes.`,
+      );
+    }
+    patched[3] = (patched[3] & 0x0f) | (sizeCode << 4);
+  }
+
+  patched[layout.checksumOffset] = computeImageChecksum(
+    patched,
+    layout.segments,
+  );
+  if (layout.header.hashAppended) {
+    const hashedLength = layout.checksumOffset + 1;
+    const digest = await crypto.subtle.digest(
+      "SHA-256",
+      patched.slice(0, hashedLength),
+    );
+    patched.set(new Uint8Array(digest), hashedLength);
+  }
+  return patched;
+}
+
+/**
+ * Parses an image and validates its checksum and appended SHA-256 digest.
+ * @param binary The image, starting at its first byte.
+ * @throws Error if the image is malformed. A wrong checksum or digest is
+ * reported in the result instead.
+ */
+export async function parseAppImage(binary: Uint8Array): Promise<AppImage> {
+  const layout = parseAppImageLayout(binary);
+  const checksum = binary[layout.checksumOffset];
+
+  let sha256: Uint8Array | null = null;
+  let sha256Valid: boolean | null = null;
+  if (layout.header.hashAppended) {
+    const hashedLength = layout.checksumOffset + 1;
+    sha256 = binary.slice(hashedLength, hashedLength + SHA256_LENGTH);
+    const digest = new Uint8Array(
+      await crypto.subtle.digest("SHA-256", binary.slice(0, hashedLength)),
+    );
+    sha256Valid = digest.every((byte, i) => byte === sha256![i]);
+  }
+
+  return {
+    ...layout,
+    checksum,
+    checksumValid: checksum === computeImageChecksum(binary, layout.segments),
+    sha256,
+    sha256Valid,
+  };
+}
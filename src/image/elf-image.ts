@@ -0,0 +1,367 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ChipFamily, getChipTarget } from "../esp/chip-targets";
+import { Partition } from "../partition/partition";
+import {
+  ESP_IMAGE_MAGIC,
+  ImageFlashMode,
+  computeImageChecksum,
+} from "./app-image";
+import { BinFilePartition } from "./bin-file-partition";
+import { ElfSectionType, parseElf } from "./elf";
+
+const IMAGE_HEADER_SIZE = 24;
+const SEGMENT_HEADER_SIZE = 8;
+const SHA256_LENGTH = 32;
+/** Flash pages are mapped into the address space in 64KB blocks. */
+const IROM_ALIGN = 0x10000;
+/** Value of the WP pin field when no WP pin is configured. */
+const WP_PIN_DISABLED = 0xee;
+
+const PROGRAM_SECTION_TYPES: number[] = [
+  ElfSectionType.PROGBITS,
+  ElfSectionType.INIT_ARRAY,
+  ElfSectionType.FINI_ARRAY,
+  ElfSectionType.PREINIT_ARRAY,
+];
+
+/**
+ * Options for building an image from an ELF file. The defaults match
+ * esptool's elf2image.
+ */
+export interface ElfToImageOptions {
+  /** Flash offset of the resulting partition. Defaults to 0x10000. */
+  offset?: number;
+  /** Filename of the resulting partition. Defaults to "app.bin". */
+  filename?: string;
+  /** Defaults to QIO. */
+  flashMode?: ImageFlashMode;
+  /**
+   * Raw flash frequency value, see `ChipTarget.flashFrequencies`. Defaults
+   * to 0, which is 40MHz on most chips.
+   */
+  flashFrequency?: number;
+  /** Flash size in bytes. Defaults to 1MB. */
+  flashSize?: number;
+  /** Minimum chip revision, as major * 100 + minor. Defaults to 0. */
+  minChipRevision?: number;
+  /** Maximum chip revision, as major * 100 + minor. Defaults to 0xffff. */
+  maxChipRevision?: number;
+  /** Append a SHA-256 digest of the image. Defaults to true. */
+  appendDigest?: boolean;
+  /**
+   * Image offset to write the SHA-256 of the ELF file to. ESP-IDF builds
+   * pass 0xb0, the elf_sha256 field of esp_app_desc_t. The bytes there must
+   * be zero.
+   */
+  elfSha256Offset?: number;
+}
+
+interface Segment {
+  address: number;
+  data: Uint8Array;
+  /** Name of the (first) ELF section the segment was built from. */
+  name?: string;
+}
+
+/**
+ * Builds a flashable image from an ELF file, the way esptool's elf2image
+ * does: loadable sections become segments, adjacent ones are merged, and
+ * flash-mapped (IROM/DROM) segments are placed so that their file offset
+ * matches their address modulo 64KB, padding with RAM segments where
+ * possible.
+ * @param elfBinary The ELF file.
+ * @param chip The chip the image is for.
+ * @param options Header values and where the partition goes.
+ * @returns A partition ready for `ESPImage.addPartition`.
+ * @throws Error if the ELF file is invalid, the chip has no image chip ID or
+ * two flash-mapped segments share a 64KB page.
+ */
+export async function elfToImage(
+  elfBinary: Uint8Array,
+  chip: ChipFamily,
+  options: ElfToImageOptions = {},
+): Promise<Partition> {
+  const target = getChipTarget(chip);
+  if (target.chipId === undefined) {
+    throw new Error(`Building images is not supported for ${target.name}.`);
+  }
+  const elf = parseElf(elfBinary);
+
+  const regionOf = (address: number): string => {
+    const mapping = target.flashMappings.findIndex(
+      ({ start, end }) => address >= start && address < end,
+    );
+    if (mapping !== -1) {
+      return `flash${mapping}`;
+    }
+    if (address >= target.iram.start && address < target.iram.end) {
+      return "iram";
+    }
+    if (address >= target.dram.start && address < target.dram.end) {
+      return "dram";
+    }
+    return "other";
+  };
+  const isFlashAddress = (address: number) =>
+    target.flashMappings.some(
+      ({ start, end }) => address >= start && address < end,
+    );
+
+  const sections: Segment[] = elf.sections
+    .filter(
+      (section) =>
+        PROGRAM_SECTION_TYPES.includes(section.type) &&
+        section.address !== 0 &&
+        section.size > 0,
+    )
+    .map(({ name, address, data }) => ({
+      name,
+      address,
+      data: padTo(data, 4),
+    }))
+    .sort((a, b) => a.address - b.address);
+
+  // Merge sections that end where the next one starts, without crossing
+  // memory regions. Gaps are not filled, they may be noinit memory. The
+  // section table need not be in address order, hence the sort above.
+  const segments: Segment[] = [];
+  for (const section of sections) {
+    const previous = segments[segments.length - 1];
+    if (
+      previous &&
+      section.address === previous.address + previous.data.length &&
+      regionOf(section.address) === regionOf(previous.address)
+    ) {
+      previous.data = concat(previous.data, section.data);
+    } else {
+      segments.push({ ...section });
+    }
+  }
+
+  const flashSegments = segments.filter((s) => isFlashAddress(s.address));
+  const ramSegments = segments.filter((s) => !isFlashAddress(s.address));
+  // The app description must start the first flash segment, and the
+  // bootloader description the first RAM segment, so both end up at image
+  // offset 0x20.
+  moveToFront(flashSegments, ".flash.appdesc");
+  moveToFront(ramSegments, ".dram0.bootdesc");
+
+  for (let i = 1; i < flashSegments.length; i++) {
+    const { address } = flashSegments[i];
+    const previous = flashSegments[i - 1].address;
+    if (
+      Math.floor(address / IROM_ALIGN) === Math.floor(previous / IROM_ALIGN)
+    ) {
+      throw new Error(
+        `Segment at 0x${address.toString(16)} lands in the same 64KB flash page as the segment at 0x${previous.toString(16)}. Merge the sections in the linker script.`,
+      );
+    }
+  }
+
+  const elfSha256 =
+    options.elfSha256Offset === undefined
+      ? undefined
+      : new Uint8Array(
+          await crypto.subtle.digest(
+            "SHA-256",
+            elfBinary as Uint8Array<ArrayBuffer>,
+          ),
+        );
+
+  const output: Segment[] = [];
+  let position = IMAGE_HEADER_SIZE;
+  const save = (segment: Segment) => {
+    const data = elfSha256
+      ? patchElfSha256(
+          segment.data,
+          position,
+          options.elfSha256Offset!,
+          elfSha256,
+        )
+      : segment.data;
+    output.push({ address: segment.address, data });
+    position += SEGMENT_HEADER_SIZE + data.length;
+  };
+
+  // Place each flash segment so that, after its header, the file offset
+  // matches its address within a 64KB page.
+  const paddingNeeded = (segment: Segment) => {
+    const alignPast = (segment.address % IROM_ALIGN) - SEGMENT_HEADER_SIZE;
+    let padLength = IROM_ALIGN - (position % IROM_ALIGN) + alignPast;
+    if (padLength === 0 || padLength === IROM_ALIGN) {
+      return 0;
+    }
+    // The padding segment has a header of its own.
+    padLength -= SEGMENT_HEADER_SIZE;
+    return padLength < 0 ? padLength + IROM_ALIGN : padLength;
+  };
+
+  while (flashSegments.length > 0) {
+    const segment = flashSegments[0];
+    const padLength = paddingNeeded(segment);
+    if (padLength > 0) {
+      if (ramSegments.length > 0 && padLength > SEGMENT_HEADER_SIZE) {
+        // Fill the gap with the start of a RAM segment rather than zeros.
+        const ram = ramSegments[0];
+        save({ address: ram.address, data: ram.data.subarray(0, padLength) });
+        ramSegments[0] = {
+          ...ram,
+          address: ram.address + padLength,
+          data: ram.data.subarray(padLength),
+        };
+        if (ramSegments[0].data.length === 0) {
+          ramSegments.shift();
+        }
+      } else {
+        save({ address: 0, data: new Uint8Array(padLength) });
+      }
+    } else {
+      let data = segment.data;
+      if (chip === ChipFamily.ESP32) {
+        // The ESP32 2nd stage bootloader does not map the last MMU page if a
+        // segment ends less than 0x24 bytes past a page boundary.
+        const remainder =
+          (position + SEGMENT_HEADER_SIZE + data.length) % IROM_ALIGN;
+        if (remainder < 0x24) {
+          data = concat(data, new Uint8Array(0x24 - remainder));
+        }
+      }
+      save({ ...segment, data });
+      flashSegments.shift();
+    }
+  }
+  ramSegments.forEach(save);
+
+  // The checksum ends a 16 byte block, followed by the optional digest.
+  const checksumOffset = position + (15 - (position % 16));
+  const appendDigest = options.appendDigest ?? true;
+  const image = new Uint8Array(
+    checksumOffset + 1 + (appendDigest ? SHA256_LENGTH : 0),
+  );
+  const view = new DataView(image.buffer);
+
+  const flashSizeCode = Math.log2((options.flashSize ?? 0x100000) / 0x100000);
+  if (
+    !Number.isInteger(flashSizeCode) ||
+    flashSizeCode < 0 ||
+    flashSizeCode > 7
+  ) {
+    throw new Error(
+      `Unsupported flash size for the image header: ${options.flashSize} bytes.`,
+    );
+  }
+  view.setUint8(0, ESP_IMAGE_MAGIC);
+  view.setUint8(1, output.length);
+  view.setUint8(2, options.flashMode ?? ImageFlashMode.QIO);
+  view.setUint8(
+    3,
+    (flashSizeCode << 4) | ((options.flashFrequency ?? 0) & 0xf),
+  );
+  view.setUint32(4, elf.entryPoint, true);
+  view.setUint8(8, WP_PIN_DISABLED);
+  view.setUint16(12, target.chipId, true);
+  // Legacy major-only revision, which esptool still fills in.
+  view.setUint8(14, Math.floor((options.minChipRevision ?? 0) / 100));
+  view.setUint16(15, options.minChipRevision ?? 0, true);
+  view.setUint16(17, options.maxChipRevision ?? 0xffff, true);
+  view.setUint8(23, appendDigest ? 1 : 0);
+
+  let offset = IMAGE_HEADER_SIZE;
+  const layout = output.map(({ address, data }) => {
+    view.setUint32(offset, address, true);
+    view.setUint32(offset + 4, data.length, true);
+    image.set(data, offset + SEGMENT_HEADER_SIZE);
+    const segment = {
+      loadAddress: address,
+      length: data.length,
+      dataOffset: offset + SEGMENT_HEADER_SIZE,
+    };
+    offset += SEGMENT_HEADER_SIZE + data.length;
+    return segment;
+  });
+  image[checksumOffset] = computeImageChecksum(image, layout);
+
+  if (appendDigest) {
+    const digest = await crypto.subtle.digest(
+      "SHA-256",
+      image.slice(0, checksumOffset + 1),
+    );
+    image.set(new Uint8Array(digest), checksumOffset + 1);
+  }
+
+  const partition = new BinFilePartition(
+    options.offset ?? 0x10000,
+    options.filename ?? "app.bin",
+  );
+  partition.binary = image;
+  return partition;
+}
+
+/**
+ * Writes the ELF file's SHA-256 into a segment if the requested image offset
+ * falls inside it.
+ * @param data The segment data.
+ * @param position Image offset of the segment header.
+ * @param shaOffset Image offset to write the digest to.
+ * @param sha256 The digest.
+ */
+function patchElfSha256(
+  data: Uint8Array,
+  position: number,
+  shaOffset: number,
+  sha256: Uint8Array,
+): Uint8Array {
+  if (shaOffset < position || shaOffset >= position + data.length) {
+    return data;
+  }
+  const patchOffset = shaOffset - position - SEGMENT_HEADER_SIZE;
+  if (patchOffset < 0 || patchOffset + SHA256_LENGTH > data.length) {
+    throw new Error(
+      `The ELF SHA-256 at 0x${shaOffset.toString(16)} does not fit inside the segment at image offset 0x${position.toString(16)}.`,
+    );
+  }
+  if (data.subarray(patchOffset, patchOffset + SHA256_LENGTH).some((b) => b)) {
+    throw new Error(
+      `The image is not zero at the ELF SHA-256 offset 0x${shaOffset.toString(16)}, refusing to overwrite it.`,
+    );
+  }
+  const patched = data.slice();
+  patched.set(sha256, patchOffset);
+  return patched;
+}
+
+function moveToFront(segments: Segment[], name: string) {
+  const index = segments.findIndex((segment) => segment.name === name);
+  if (index > 0) {
+    segments.unshift(...segments.splice(index, 1));
+  }
+}
+
+function padTo(data: Uint8Array, alignment: number): Uint8Array {
+  const remainder = data.length % alignment;
+  return remainder === 0
+    ? data
+    : concat(data, new Uint8Array(alignment - remainder));
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.length + b.length);
+  result.set(a);
+  result.set(b, a.length);
+  return result;
+}
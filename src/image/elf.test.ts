@@ -0,0 +1,386 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect } from "vitest";
+import { ElfMachine, ElfSectionType, parseElf } from "./elf";
+import { elfToImage } from "./elf-image";
+import { parseAppImage } from "./app-image";
+import { ChipFamily } from "../esp/chip-targets";
+
+interface TestSection {
+  name: string;
+  address: number;
+  /** Section contents, or the size of a NOBITS section. */
+  data: Uint8Array | number;
+  type?: ElfSectionType;
+}
+
+/**
+ * Builds a minimal 32-bit little-endian ELF file with a section table.
+ */
+function buildElf(
+  sections: TestSection[],
+  { entryPoint = 0x40380000, machine = ElfMachine.RISCV } = {},
+): Uint8Array<ArrayBuffer> {
+  const encoder = new TextEncoder();
+  const names = [0];
+  const nameOffsets = sections.map((section) => {
+    const offset = names.length;
+    names.push(...encoder.encode(section.name), 0);
+    return offset;
+  });
+  const shstrtabName = names.length;
+  names.push(...encoder.encode(".shstrtab"), 0);
+
+  let offset = 0x34;
+  const dataOffsets = sections.map((section) => {
+    const current = offset;
+    offset += typeof section.data === "number" ? 0 : section.data.length;
+    return current;
+  });
+  const namesOffset = offset;
+  const sectionTableOffset = (namesOffset + names.length + 3) & ~3;
+  const sectionCount = sections.length + 2;
+  const elf = new Uint8Array(sectionTableOffset + sectionCount * 0x28);
+  const view = new DataView(elf.buffer);
+
+  elf.set([0x7f, 0x45, 0x4c, 0x46, 1, 1, 1]);
+  view.setUint16(0x10, 2, true); // ET_EXEC
+  view.setUint16(0x12, machine, true);
+  view.setUint32(0x14, 1, true);
+  view.setUint32(0x18, entryPoint, true);
+  view.setUint32(0x20, sectionTableOffset, true);
+  view.setUint16(0x28, 0x34, true);
+  view.setUint16(0x2e, 0x28, true);
+  view.setUint16(0x30, sectionCount, true);
+  view.setUint16(0x32, sectionCount - 1, true);
+
+  const writeSectionHeader = (
+    index: number,
+    name: number,
+    type: number,
+    address: number,
+    dataOffset: number,
+    size: number,
+  ) => {
+    const base = sectionTableOffset + index * 0x28;
+    view.setUint32(base, name, true);
+    view.setUint32(base + 4, type, true);
+    view.setUint32(base + 12, address, true);
+    view.setUint32(base + 16, dataOffset, true);
+    view.setUint32(base + 20, size, true);
+  };
+
+  sections.forEach((section, i) => {
+    const isData = typeof section.data !== "number";
+    if (typeof section.data !== "number") {
+      elf.set(section.data, dataOffsets[i]);
+    }
+    writeSectionHeader(
+      i + 1,
+      nameOffsets[i],
+      section.type ??
+        (isData ? ElfSectionType.PROGBITS : ElfSectionType.NOBITS),
+      section.address,
+      dataOffsets[i],
+      typeof section.data === "number" ? section.data : section.data.length,
+    );
+  });
+  elf.set(names, namesOffset);
+  writeSectionHeader(
+    sectionCount - 1,
+    shstrtabName,
+    ElfSectionType.STRTAB,
+    0,
+    namesOffset,
+    names.length,
+  );
+  return elf;
+}
+
+const fill = (length: number, value: number) =>
+  new Uint8Array(length).fill(value);
+
+describe("parseElf", () => {
+  it("should read the entry point, machine and sections", () => {
+    const elf = parseElf(
+      buildElf(
+        [
+          { name: ".iram0.text", address: 0x40380000, data: fill(8, 0x11) },
+          { name: ".bss", address: 0x3fc80000, data: 0x400 },
+        ],
+        { entryPoint: 0x40380004 },
+      ),
+    );
+
+    expect(elf.machine).toBe(ElfMachine.RISCV);
+    expect(elf.entryPoint).toBe(0x40380004);
+    expect(elf.sections.map(({ name }) => name)).toEqual([
+      "",
+      ".iram0.text",
+      ".bss",
+      ".shstrtab",
+    ]);
+    expect(elf.sections[1]).toEqual({
+      name: ".iram0.text",
+      type: ElfSectionType.PROGBITS,
+      address: 0x40380000,
+      size: 8,
+      data: fill(8, 0x11),
+    });
+    expect(elf.sections[2].size).toBe(0x400);
+    expect(elf.sections[2].data).toHaveLength(0);
+  });
+
+  it("should reject a file that is not an ELF file", () => {
+    expect(() => parseElf(new Uint8Array(0x40))).toThrow("Not an ELF file.");
+  });
+
+  it("should reject a 64-bit ELF file", () => {
+    const elf = buildElf([]);
+    elf[4] = 2;
+
+    expect(() => parseElf(elf)).toThrow(
+      "Only 32-bit little-endian ELF files are supported.",
+    );
+  });
+});
+
+describe("elfToImage", () => {
+  it("should align flash segments to their 64KB page using RAM segments as padding", async () => {
+    const elf = buildElf([
+      { name: ".flash.rodata", address: 0x3c000020, data: fill(0x100, 1) },
+      { name: ".dram0.data", address: 0x3fc80000, data: fill(0x200, 2) },
+      { name: ".iram0.text", address: 0x40380000, data: fill(0x3000, 3) },
+      { name: ".flash.text", address: 0x42000020, data: fill(0x200, 4) },
+      { name: ".dram0.bss", address: 0x3fc80200, data: 0x1000 },
+    ]);
+
+    const partition = await elfToImage(elf, ChipFamily.ESP32C3);
+    const image = await parseAppImage(partition.binary);
+
+    expect(partition.offset).toBe(0x10000);
+    expect(partition.filename).toBe("app.bin");
+    expect(image.header.chipId).toBe(5);
+    expect(image.header.entryPoint).toBe(0x40380000);
+    expect(image.header.maxChipRevision).toBe(0xffff);
+    expect(
+      image.segments.map(({ loadAddress, length }) => [loadAddress, length]),
+    ).toEqual([
+      [0x3c000020, 0x100],
+      [0x3fc80000, 0x200],
+      [0x40380000, 0x3000],
+      [0x0, 52448],
+      [0x42000020, 0x200],
+    ]);
+    for (const segment of [image.segments[0], image.segments[4]]) {
+      expect(segment.dataOffset % 0x10000).toBe(segment.loadAddress % 0x10000);
+    }
+    expect(image.checksumValid).toBe(true);
+    expect(image.sha256Valid).toBe(true);
+    expect(image.length).toBe(partition.binary.length);
+  });
+
+  it("should merge adjacent sections and pad them to four bytes", async () => {
+    const elf = buildElf([
+      { name: ".iram0.vectors", address: 0x40380000, data: fill(0x10, 1) },
+      { name: ".iram0.text", address: 0x40380010, data: fill(3, 2) },
+      { name: ".dram0.data", address: 0x3fc80000, data: fill(4, 3) },
+    ]);
+
+    const image = await parseAppImage(
+      (await elfToImage(elf, ChipFamily.ESP32C3)).binary,
+    );
+
+    expect(
+      image.segments.map(({ loadAddress, length }) => [loadAddress, length]),
+    ).toEqual([
+      [0x3fc80000, 4],
+      [0x40380000, 0x14],
+    ]);
+  });
+
+  it("should merge sections that are out of order in the section table", async () => {
+    const elf = buildElf([
+      { name: ".iram0.text", address: 0x40380010, data: fill(0x10, 2) },
+      { name: ".dram0.data", address: 0x3fc80000, data: fill(4, 3) },
+      { name: ".iram0.vectors", address: 0x40380000, data: fill(0x10, 1) },
+    ]);
+
+    const { binary } = await elfToImage(elf, ChipFamily.ESP32C3);
+    const image = await parseAppImage(binary);
+
+    expect(
+      image.segments.map(({ loadAddress, length }) => [loadAddress, length]),
+    ).toEqual([
+      [0x3fc80000, 4],
+      [0x40380000, 0x20],
+    ]);
+    const iram = image.segments[1];
+    expect(
+      binary.subarray(iram.dataOffset, iram.dataOffset + iram.length),
+    ).toEqual(new Uint8Array([...fill(0x10, 1), ...fill(0x10, 2)]));
+  });
+
+  it("should put the app description at the start of the flash segments", async () => {
+    const elf = buildElf([
+      { name: ".flash.text", address: 0x42000020, data: fill(0x40, 1) },
+      { name: ".flash.appdesc", address: 0x42800020, data: fill(0x100, 2) },
+    ]);
+
+    const image = await parseAppImage(
+      (await elfToImage(elf, ChipFamily.ESP32C6)).binary,
+    );
+
+    expect(image.segments[0]).toEqual({
+      loadAddress: 0x42800020,
+      length: 0x100,
+      dataOffset: 0x20,
+    });
+  });
+
+  it("should extend ESP32 flash segments that end just past a page boundary", async () => {
+    const elf = buildElf([
+      { name: ".flash.rodata", address: 0x3f400020, data: fill(0xffe0, 1) },
+    ]);
+
+    const image = await parseAppImage(
+      (await elfToImage(elf, ChipFamily.ESP32)).binary,
+    );
+
+    expect(image.header.chipId).toBe(0);
+    expect(image.segments[0].length).toBe(0xffe0 + 0x24);
+  });
+
+  it("should write the ELF SHA-256 into the app description", async () => {
+    const elf = buildElf([
+      { name: ".flash.appdesc", address: 0x3c000020, data: fill(0x100, 0) },
+    ]);
+
+    const partition = await elfToImage(elf, ChipFamily.ESP32C3, {
+      elfSha256Offset: 0xb0,
+    });
+
+    const elfSha256 = new Uint8Array(
+      await crypto.subtle.digest("SHA-256", elf),
+    );
+    expect(partition.binary.subarray(0xb0, 0xd0)).toEqual(elfSha256);
+    expect((await parseAppImage(partition.binary)).sha256Valid).toBe(true);
+  });
+
+  it("should refuse to overwrite data at the ELF SHA-256 offset", async () => {
+    const elf = buildElf([
+      { name: ".flash.appdesc", address: 0x3c000020, data: fill(0x100, 1) },
+    ]);
+
+    await expect(
+      elfToImage(elf, ChipFamily.ESP32C3, { elfSha256Offset: 0xb0 }),
+    ).rejects.toThrow(
+      "The image is not zero at the ELF SHA-256 offset 0xb0, refusing to overwrite it.",
+    );
+  });
+
+  it("should write the requested header values", async () => {
+    const elf = buildElf([
+      { name: ".iram0.text", address: 0x40380000, data: fill(4, 1) },
+    ]);
+
+    const partition = await elfToImage(elf, ChipFamily.ESP32C3, {
+      offset: 0x20000,
+      filename: "ota.bin",
+      flashMode: 2,
+      flashFrequency: 0xf,
+      flashSize: 4 * 1024 * 1024,
+      minChipRevision: 3,
+      maxChipRevision: 199,
+      appendDigest: false,
+    });
+    const image = await parseAppImage(partition.binary);
+
+    expect(partition.offset).toBe(0x20000);
+    expect(partition.filename).toBe("ota.bin");
+    expect(image.header).toMatchObject({
+      flashMode: 2,
+      flashFrequency: 0xf,
+      flashSize: 4 * 1024 * 1024,
+      minChipRevision: 3,
+      maxChipRevision: 199,
+      hashAppended: false,
+    });
+    expect(image.sha256).toBeNull();
+    expect(partition.binary).toHaveLength(48);
+  });
+
+  it("should lay out the extended header like esptool", async () => {
+    const elf = buildElf([
+      { name: ".iram0.text", address: 0x40380000, data: fill(4, 1) },
+    ]);
+
+    const { binary } = await elfToImage(elf, ChipFamily.ESP32C3, {
+      flashMode: 2,
+      flashFrequency: 0xf,
+      flashSize: 4 * 1024 * 1024,
+      minChipRevision: 301,
+      maxChipRevision: 499,
+    });
+
+    expect(binary.subarray(0, 24)).toEqual(
+      new Uint8Array([
+        0xe9, // Magic
+        1, // Segment count
+        2, // Flash mode
+        0x2f, // 4MB, frequency 0xf
+        0x00,
+        0x00,
+        0x38,
+        0x40, // Entry point
+        0xee, // WP pin
+        0,
+        0,
+        0, // SPI pin drive settings
+        5,
+        0, // Chip ID
+        3, // Legacy minimum revision, major only
+        0x2d,
+        0x01, // Minimum revision 301
+        0xf3,
+        0x01, // Maximum revision 499
+        0,
+        0,
+        0,
+        0, // Reserved
+        1, // SHA-256 appended
+      ]),
+    );
+  });
+
+  it("should reject flash segments that share a 64KB page", async () => {
+    const elf = buildElf([
+      { name: ".flash.rodata", address: 0x3c000020, data: fill(0x10, 1) },
+      { name: ".flash.rodata2", address: 0x3c000100, data: fill(0x10, 2) },
+    ]);
+
+    await expect(elfToImage(elf, ChipFamily.ESP32C3)).rejects.toThrow(
+      "Segment at 0x3c000100 lands in the same 64KB flash page as the segment at 0x3c000020.",
+    );
+  });
+
+  it("should refuse chips without image chip IDs", async () => {
+    await expect(elfToImage(buildElf([]), ChipFamily.ESP8266)).rejects.toThrow(
+      "Building images is not supported for ESP8266.",
+    );
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+const ELF_MAGIC = [0x7f, 0x45, 0x4c, 0x46]; // "\x7fELF"
+const ELF_CLASS_32 = 1;
+const ELF_DATA_LITTLE_ENDIAN = 1;
+const ELF_HEADER_SIZE = 0x34;
+const SECTION_HEADER_SIZE = 0x28;
+
+/**
+ * Section types relevant for building images.
+ */
+export enum ElfSectionType {
+  NULL = 0,
+  PROGBITS = 1,
+  SYMTAB = 2,
+  STRTAB = 3,
+  NOBITS = 8,
+  INIT_ARRAY = 14,
+  FINI_ARRAY = 15,
+  PREINIT_ARRAY = 16,
+}
+
+/**
+ * Machine types of the chips this library supports.
+ */
+export enum ElfMachine {
+  XTENSA = 0x5e,
+  RISCV = 0xf3,
+}
+
+/**
+ * A section of an ELF file.
+ */
+export interface ElfSection {
+  name: string;
+  /** Section type, see ElfSectionType. */
+  type: number;
+  /** Address the section is loaded to. */
+  address: number;
+  /** Size of the section in memory. */
+  size: number;
+  /** The section contents. Empty for sections without file data (NOBITS). */
+  data: Uint8Array;
+}
+
+/**
+ * A parsed 32-bit little-endian ELF file.
+ */
+export interface ElfFile {
+  /** Machine type, see ElfMachine. */
+  machine: number;
+  entryPoint: number;
+  sections: ElfSection[];
+}
+
+/**
+ * Parses the header and section table of a 32-bit little-endian ELF file, as
+ * produced for every ESP chip.
+ * @param binary The ELF file.
+ * @throws Error if the file is not a 32-bit little-endian ELF file or its
+ * section table lies outside the file.
+ */
+export function parseElf(binary: Uint8Array): ElfFile {
+  if (
+    binary.length < ELF_HEADER_SIZE ||
+    ELF_MAGIC.some((byte, i) => binary[i] !== byte)
+  ) {
+    throw new Error("Not an ELF file.");
+  }
+  if (binary[4] !== ELF_CLASS_32 || binary[5] !== ELF_DATA_LITTLE_ENDIAN) {
+    throw new Error("Only 32-bit little-endian ELF files are supported.");
+  }
+
+  const view = new DataView(binary.buffer, binary.byteOffset, binary.length);
+  const machine = view.getUint16(0x12, true);
+  const entryPoint = view.getUint32(0x18, true);
+  const sectionTableOffset = view.getUint32(0x20, true);
+  const sectionHeaderSize = view.getUint16(0x2e, true);
+  const sectionCount = view.getUint16(0x30, true);
+  const namesIndex = view.getUint16(0x32, true);
+
+  if (sectionCount > 0 && sectionHeaderSize < SECTION_HEADER_SIZE) {
+    throw new Error(`Invalid ELF section header size: ${sectionHeaderSize}.`);
+  }
+  if (sectionTableOffset + sectionCount * sectionHeaderSize > binary.length) {
+    throw new Error("ELF section table lies outside the file.");
+  }
+
+  const headers = Array.from({ length: sectionCount }, (_, i) => {
+    const base = sectionTableOffset + i * sectionHeaderSize;
+    return {
+      nameOffset: view.getUint32(base, true),
+      type: view.getUint32(base + 4, true),
+      address: view.getUint32(base + 12, true),
+      offset: view.getUint32(base + 16, true),
+      size: view.getUint32(base + 20, true),
+    };
+  });
+
+  const readData = (offset: number, size: number, type: number) => {
+    if (type === ElfSectionType.NOBITS || type === ElfSectionType.NULL) {
+      return new Uint8Array(0);
+    }
+    if (offset + size > binary.length) {
+      throw new Error(
+        `ELF section data at 0x${offset.toString(16)} lies outside the file.`,
+      );
+    }
+    return binary.subarray(offset, offset + size);
+  };
+
+  const names = headers[namesIndex];
+  const nameTable = names
+    ? readData(names.offset, names.size, names.type)
+    : new Uint8Array(0);
+  const readName = (offset: number) => {
+    const end = nameTable.indexOf(0, offset);
+    return new TextDecoder().decode(
+      nameTable.subarray(offset, end === -1 ? nameTable.length : end),
+    );
+  };
+
+  const sections = headers.map(
+    ({ nameOffset, type, address, offset, size }) => ({
+      name: readName(nameOffset),
+      type,
+      address,
+      size,
+      data: readData(offset, size, type),
+    }),
+  );
+
+  return { machine, entryPoint, sections };
+}
@@ -17,6 +17,13 @@
 import { describe, it, expect, vi } from "vitest";
 import { ESPImage } from "./image";
 import { BinFilePartition } from "./bin-file-partition";
+import { ChipFamily } from "../esp/chip-targets";
+import { PartitionTable } from "../partition/partition-table";
+import {
+  AppPartitionSubType,
+  DataPartitionSubType,
+  PartitionType,
+} from "../partition/partition-types";
 
 // Mock the BinFilePartition class
 vi.mock("./bin-file-partition", () => {
@@ -33,6 +40,30 @@ describe("ESPImage", () => {
     expect(BinFilePartition).toHaveBeenCalledWith(0x1000, filename);
   });
 
+  it("should place the bootloader at the offset of the target chip", () => {
+    const image = new ESPImage(ChipFamily.ESP32S3);
+    image.addBootloader("bootloader.bin");
+    expect(BinFilePartition).toHaveBeenCalledWith(0x0, "bootloader.bin");
+  });
+
+  it("should move the bootloader when the chip is set later", () => {
+    const image = new ESPImage();
+    image.addBootloader("bootloader.bin");
+    const binary = new Uint8Array([1, 2, 3]);
+    image.partitions[0].binary = binary;
+    Object.assign(image.partitions[0], {
+      offset: 0x1000,
+      filename: "bootloader.bin",
+    });
+
+    image.setChip(ChipFamily.ESP32C3);
+
+    expect(image.bootloaderOffset).toBe(0x0);
+    expect(BinFilePartition).toHaveBeenLastCalledWith(0x0, "bootloader.bin");
+    expect(image.partitions).toHaveLength(1);
+    expect(image.partitions[0].binary).toBe(binary);
+  });
+
   it("should add a partition table with the correct offset", () => {
     const image = new ESPImage();
     const filename = "partitions.bin";
@@ -61,4 +92,137 @@ describe("ESPImage", () => {
     expect(image.partitions.length).toBe(1);
     expect(image.partitions[0]).toBe(mockPartition);
   });
+
+  describe("merged binaries", () => {
+    const fill = (length: number, value: number) =>
+      new Uint8Array(length).fill(value);
+
+    // An image header without segments, padded to its checksum byte.
+    const bootloaderImage = (chipId: number) => {
+      const binary = new Uint8Array(32);
+      binary[0] = 0xe9;
+      binary[12] = chipId;
+      binary[31] = 0xef;
+      return binary;
+    };
+
+    const createImage = (tableOffset = 0x8000) => {
+      const image = new ESPImage(ChipFamily.ESP32C3);
+      const table = new PartitionTable(
+        [
+          {
+            name: "nvs",
+            type: PartitionType.DATA,
+            subType: DataPartitionSubType.NVS,
+            size: 0x6000,
+          },
+          {
+            name: "factory",
+            type: PartitionType.APP,
+            subType: AppPartitionSubType.FACTORY,
+            offset: 0x10000,
+            size: 0x100000,
+          },
+        ],
+        tableOffset,
+      );
+      image.addPartition({
+        offset: 0x0,
+        filename: "bootloader.bin",
+        binary: bootloaderImage(5),
+      });
+      image.addPartition(table);
+      image.addPartition({
+        offset: tableOffset + 0x1000,
+        filename: "nvs.bin",
+        binary: fill(0x20, 2),
+      });
+      image.addPartition({
+        offset: 0x10000,
+        filename: "factory.bin",
+        binary: fill(0x40, 3),
+      });
+      return image;
+    };
+
+    it("should lay out all partitions with 0xFF in the gaps", () => {
+      const merged = createImage().toMergedBinary();
+
+      expect(merged).toHaveLength(0x10040);
+      expect(merged.subarray(0, 32)).toEqual(bootloaderImage(5));
+      expect(merged.subarray(32, 0x8000).every((b) => b === 0xff)).toBe(true);
+      expect(merged[0x8000]).toBe(0xaa);
+      expect(merged.subarray(0x9000, 0x9020)).toEqual(fill(0x20, 2));
+      expect(merged.subarray(0x10000)).toEqual(fill(0x40, 3));
+    });
+
+    it("should pad the merged binary to the flash size", () => {
+      const merged = createImage().toMergedBinary(0x400000);
+
+      expect(merged).toHaveLength(0x400000);
+      expect(merged[0x3fffff]).toBe(0xff);
+    });
+
+    it("should reject partitions that overlap", () => {
+      const image = createImage();
+      image.addPartition({
+        offset: 0x10020,
+        filename: "extra.bin",
+        binary: fill(0x10, 4),
+      });
+
+      expect(() => image.toMergedBinary()).toThrow(
+        "extra.bin at 0x10020 overlaps factory.bin, which ends at 0x10040.",
+      );
+    });
+
+    it("should reject an image larger than the flash size", () => {
+      const image = createImage();
+      image.addPartition({
+        offset: 0x100000,
+        filename: "storage.bin",
+        binary: fill(0x10, 4),
+      });
+
+      expect(() => image.toMergedBinary(0x100000)).toThrow(
+        "The image ends at 0x100010, past the end of the 1MB flash.",
+      );
+    });
+
+    it("should split a merged binary along its partition table", () => {
+      const merged = createImage().toMergedBinary();
+
+      const image = ESPImage.fromMergedBinary(merged);
+
+      expect(image.chip).toBe(ChipFamily.ESP32C3);
+      expect(
+        image.partitions.map(({ offset, filename, binary }) => [
+          offset,
+          filename,
+          binary.length,
+        ]),
+      ).toEqual([
+        [0x0, "bootloader.bin", 0x8000],
+        [0x8000, "partition-table.bin", 0x1000],
+        [0x9000, "nvs.bin", 0x6000],
+        [0x10000, "factory.bin", 0x40],
+      ]);
+      expect(image.toMergedBinary()).toEqual(merged);
+    });
+
+    it("should find a partition table at a custom offset", () => {
+      const merged = createImage(0xa000).toMergedBinary();
+
+      const image = ESPImage.fromMergedBinary(merged, ChipFamily.ESP32C3);
+
+      expect(image.partitions[1].offset).toBe(0xa000);
+      expect(image.partitions[2].offset).toBe(0xb000);
+    });
+
+    it("should reject a binary without a partition table", () => {
+      expect(() => ESPImage.fromMergedBinary(fill(0x10000, 0xff))).toThrow(
+        "No partition table found in the merged binary.",
+      );
+    });
+  });
 });
@@ -16,12 +16,67 @@
 
 import { Partition } from "../partition/partition";
 import { BinFilePartition } from "./bin-file-partition";
+import {
+  CHIP_TARGETS,
+  ChipFamily,
+  chipFromChipId,
+  getChipTarget,
+} from "../esp/chip-targets";
+import { PartitionTable } from "../partition/partition-table";
+import { ESP_IMAGE_MAGIC, parseAppImageHeader } from "./app-image";
+
+/**
+ * Bootloader offset used while the target chip is not known (ESP32, ESP32-S2).
+ */
+const DEFAULT_BOOTLOADER_OFFSET = 0x1000;
+
+/** Where ESP-IDF puts the partition table unless configured otherwise. */
+const DEFAULT_PARTITION_TABLE_OFFSET = 0x8000;
+/** Flash reserved for the partition table. */
+const PARTITION_TABLE_SIZE = 0x1000;
 
 export class ESPImage {
   partitions: Array<Partition> = [];
+  private bootloader: Partition | undefined;
+
+  /**
+   * @param chip The chip the image is built for. Decides where the bootloader
+   * goes. When omitted, `flashImage` sets it once the chip is detected.
+   */
+  constructor(public chip?: ChipFamily) {}
+
+  /**
+   * Flash offset of the bootloader on the target chip.
+   */
+  get bootloaderOffset(): number {
+    return this.chip === undefined
+      ? DEFAULT_BOOTLOADER_OFFSET
+      : getChipTarget(this.chip).bootloaderOffset;
+  }
+
+  /**
+   * Sets the target chip and moves a bootloader added with `addBootloader`
+   * to that chip's bootloader offset.
+   * @param chip The chip the image will be flashed to.
+   */
+  setChip(chip: ChipFamily) {
+    this.chip = chip;
+    const bootloader = this.bootloader;
+    if (!bootloader || bootloader.offset === this.bootloaderOffset) {
+      return;
+    }
+    const moved = new BinFilePartition(
+      this.bootloaderOffset,
+      bootloader.filename,
+    );
+    moved.binary = bootloader.binary;
+    this.partitions[this.partitions.indexOf(bootloader)] = moved;
+    this.bootloader = moved;
+  }
 
   addBootloader(fileName: string) {
-    this.partitions.push(new BinFilePartition(0x1000, fileName));
+    this.bootloader = new BinFilePartition(this.bootloaderOffset, fileName);
+    this.partitions.push(this.bootloader);
   }
 
   addPartitionTable(fileName: string) {
@@ -35,4 +90,144 @@ export class ESPImage {
   addPartition(partition: Partition) {
     this.partitions.push(partition);
   }
+
+  /**
+   * Lays all partitions out in a single binary to flash at 0x0, with 0xFF
+   * in the gaps between them.
+   * @param flashSize Pad the binary with 0xFF to this size, such as the size
+   * of the flash chip.
+   * @returns The merged binary.
+   * @throws Error if partitions overlap or do not fit in flashSize.
+   */
+  toMergedBinary(flashSize?: number): Uint8Array {
+    const sorted = [...this.partitions].sort((a, b) => a.offset - b.offset);
+    let end = 0;
+    let previous: Partition | undefined;
+    for (const partition of sorted) {
+      if (previous && partition.offset < end) {
+        throw new Error(
+          `${partition.filename} at 0x${partition.offset.toString(16)} overlaps ${previous.filename}, which ends at 0x${end.toString(16)}.`,
+        );
+      }
+      end = partition.offset + partition.binary.length;
+      previous = partition;
+    }
+    if (flashSize !== undefined && end > flashSize) {
+      throw new Error(
+        `The image ends at 0x${end.toString(16)}, past the end of the ${flashSize / 0x100000}MB flash.`,
+      );
+    }
+
+    const merged = new Uint8Array(flashSize ?? end).fill(0xff);
+    for (const partition of sorted) {
+      merged.set(partition.binary, partition.offset);
+    }
+    return merged;
+  }
+
+  /**
+   * Splits a merged binary, as written by `toMergedBinary` or esptool's
+   * merge_bin, back into the bootloader, the partition table and one
+   * partition per partition table entry. Each partition covers its whole
+   * region in the merged binary, so flashing the result writes the same data
+   * as flashing the merged binary at 0x0.
+   * @param binary The merged binary, starting at flash offset 0x0.
+   * @param chip The chip the binary is for. Taken from the bootloader image
+   * header if omitted.
+   * @returns The image.
+   * @throws Error if no partition table is found.
+   */
+  static fromMergedBinary(binary: Uint8Array, chip?: ChipFamily): ESPImage {
+    const bootloaderOffset = findBootloaderOffset(binary, chip);
+    if (chip === undefined && bootloaderOffset !== undefined) {
+      const imageChip = chipFromChipId(
+        parseAppImageHeader(binary.subarray(bootloaderOffset)).chipId,
+      );
+      chip = imageChip === ChipFamily.UNKNOWN ? undefined : imageChip;
+    }
+    const image = new ESPImage(chip);
+
+    const { table, offset: tableOffset } = findPartitionTable(binary);
+    const region = (offset: number, end: number) =>
+      binary.subarray(offset, Math.min(end, binary.length));
+
+    if (bootloaderOffset !== undefined) {
+      image.bootloader = {
+        offset: bootloaderOffset,
+        filename: "bootloader.bin",
+        binary: region(bootloaderOffset, tableOffset),
+      };
+      image.partitions.push(image.bootloader);
+    }
+    image.addPartition({
+      offset: tableOffset,
+      filename: table.filename,
+      binary: region(tableOffset, tableOffset + PARTITION_TABLE_SIZE),
+    });
+    for (const entry of table.entries) {
+      if (entry.offset >= binary.length) {
+        continue;
+      }
+      image.addPartition({
+        offset: entry.offset,
+        filename: `${entry.name}.bin`,
+        binary: region(entry.offset, entry.offset + entry.size),
+      });
+    }
+    return image;
+  }
+}
+
+/**
+ * Finds the bootloader image in a merged binary.
+ * @returns Its offset, or undefined if there is no image at any of the
+ * bootloader offsets.
+ */
+function findBootloaderOffset(
+  binary: Uint8Array,
+  chip?: ChipFamily,
+): number | undefined {
+  const candidates =
+    chip === undefined
+      ? [
+          ...new Set(
+            Object.values(CHIP_TARGETS).map(
+              ({ bootloaderOffset }) => bootloaderOffset,
+            ),
+          ),
+        ].sort((a, b) => a - b)
+      : [getChipTarget(chip).bootloaderOffset];
+  return candidates.find((offset) => binary[offset] === ESP_IMAGE_MAGIC);
+}
+
+/**
+ * Finds and parses the partition table in a merged binary, trying the
+ * default offset before scanning every 4KB sector.
+ */
+function findPartitionTable(binary: Uint8Array): {
+  table: PartitionTable;
+  offset: number;
+} {
+  const offsets = [DEFAULT_PARTITION_TABLE_OFFSET];
+  for (let offset = 0x1000; offset < binary.length; offset += 0x1000) {
+    if (offset !== DEFAULT_PARTITION_TABLE_OFFSET) {
+      offsets.push(offset);
+    }
+  }
+  for (const offset of offsets) {
+    // Partition table entries start with 0xAA 0x50.
+    if (binary[offset] !== 0xaa || binary[offset + 1] !== 0x50) {
+      continue;
+    }
+    try {
+      const table = PartitionTable.fromBinary(
+        binary.subarray(offset, offset + PARTITION_TABLE_SIZE),
+        offset,
+      );
+      return { table, offset };
+    } catch {
+      // Not a partition table after all, keep looking.
+    }
+  }
+  throw new Error("No partition table found in the merged binary.");
 }
@@ -15,11 +15,74 @@
  */
 
 // --- Core Controller ---
-export { SerialController } from "./esp/serial-controller";
-export type { SerialConnection } from "./esp/serial-controller";
+export {
+  SerialController,
+  ChipFamily,
+  DEFAULT_ESP32_SERIAL_OPTIONS,
+} from "./esp/serial-controller";
+export type {
+  SerialConnection,
+  FlashPartitionOptions,
+  FlashImageOptions,
+  FlashProgress,
+  ReadFlashProgress,
+  ResetOptions,
+  AfterFlashAction,
+  FlashModeSetting,
+  FlashSizeSetting,
+} from "./esp/serial-controller";
+export {
+  FlashVerificationError,
+  SecureDownloadModeError,
+  WriteTimeoutError,
+} from "./esp/errors";
+export { CHIP_TARGETS, getChipTarget } from "./esp/chip-targets";
+export type { ChipTarget, MemoryRange } from "./esp/chip-targets";
+export type { FlashInfo } from "./esp/spi-flash";
+export type { DeviceInfo } from "./esp/device-info";
+export type { EfuseSummary, EfuseBlock, EfuseField } from "./esp/efuse";
+export { UNSOLICITED_FRAME_EVENT } from "./esp/response-dispatcher";
+export type { ResponseFrame } from "./esp/response-dispatcher";
+export { SecurityInfoFlag } from "./esp/security-info";
+export type { SecurityInfo } from "./esp/security-info";
+export {
+  RESET_SEQUENCES,
+  DEFAULT_RESET_STRATEGIES,
+} from "./esp/reset-strategies";
+export type { ResetStrategy, ResetStrategyName } from "./esp/reset-strategies";
+
+// --- Transports ---
+export type { SerialTransport } from "./transport/transport";
+export { WebSerialTransport } from "./transport/web-serial-transport";
+export { VirtualEspDevice } from "./transport/virtual-esp-device";
+export type {
+  VirtualEspDeviceOptions,
+  VirtualEspFault,
+} from "./transport/virtual-esp-device";
 
 // --- Image Creation ---
 export { ESPImage } from "./image/image";
+export {
+  ESP_IMAGE_MAGIC,
+  ImageFlashMode,
+  parseAppImage,
+  parseAppImageHeader,
+  parseAppImageLayout,
+  patchImageFlashParams,
+} from "./image/app-image";
+export type {
+  AppImage,
+  AppImageHeader,
+  AppImageLayout,
+  AppImageSegment,
+  ImageFlashParams,
+} from "./image/app-image";
+export { APP_DESC_MAGIC, parseAppDescription } from "./image/app-description";
+export type { AppDescription } from "./image/app-description";
+export { parseElf, ElfMachine, ElfSectionType } from "./image/elf";
+export type { ElfFile, ElfSection } from "./image/elf";
+export { elfToImage } from "./image/elf-image";
+export type { ElfToImageOptions } from "./image/elf-image";
 
 // --- Partition Implementations ---
 export { BinFilePartition } from "./image/bin-file-partition";
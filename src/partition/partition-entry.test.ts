@@ -47,6 +47,25 @@ describe("PartitionEntry", () => {
     expect(textDecoder.decode(binary.slice(12, 12 + 3))).toBe("nvs");
   });
 
+  it("should parse its binary representation", () => {
+    const entry = new PartitionEntry({
+      name: "storage",
+      type: PartitionType.DATA,
+      subType: DataPartitionSubType.SPIFFS,
+      offset: 0x110000,
+      size: 0xf0000,
+      flags: { readonly: true },
+    });
+
+    expect(PartitionEntry.fromBinary(entry.toBinary())).toEqual(entry);
+  });
+
+  it("should reject an entry without the entry magic", () => {
+    expect(() => PartitionEntry.fromBinary(new Uint8Array(32))).toThrow(
+      "Invalid partition entry magic.",
+    );
+  });
+
   it("should throw an error for a long name", () => {
     expect(() => {
       new PartitionEntry({
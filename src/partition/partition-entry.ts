@@ -46,6 +46,35 @@ export class PartitionEntry {
     };
   }
 
+  /**
+   * Parses a 32 byte partition table entry.
+   * @param data The entry.
+   * @throws Error if the entry does not start with the entry magic.
+   */
+  public static fromBinary(data: Uint8Array): PartitionEntry {
+    if (
+      data.length < SIZEOF_STRUCT ||
+      data[0] !== MAGIC_BYTES[0] ||
+      data[1] !== MAGIC_BYTES[1]
+    ) {
+      throw new Error("Invalid partition entry magic.");
+    }
+    const view = new DataView(data.buffer, data.byteOffset, SIZEOF_STRUCT);
+    const name = data.subarray(12, 28);
+    const nameEnd = name.indexOf(0);
+    const flags = view.getUint32(28, true);
+    return new PartitionEntry({
+      name: new TextDecoder().decode(
+        nameEnd === -1 ? name : name.subarray(0, nameEnd),
+      ),
+      type: view.getUint8(2),
+      subType: view.getUint8(3),
+      offset: view.getUint32(4, true),
+      size: view.getUint32(8, true),
+      flags: { encrypted: (flags & 1) !== 0, readonly: (flags & 2) !== 0 },
+    });
+  }
+
   public toBinary(): Uint8Array {
     const buffer = new ArrayBuffer(SIZEOF_STRUCT);
     const view = new DataView(buffer);
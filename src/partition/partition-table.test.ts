@@ -83,4 +83,31 @@ describe("PartitionTable", () => {
     expect(md5Entry[0]).toBe(0xeb);
     expect(md5Entry[1]).toBe(0xeb);
   });
+
+  it("should parse a table from its binary", () => {
+    const table = PartitionTable.factoryAppTwoOtaDefinitions();
+
+    const parsed = PartitionTable.fromBinary(table.toBinary());
+
+    expect(parsed.entries).toEqual(table.entries);
+    expect(parsed.toBinary()).toEqual(table.toBinary());
+  });
+
+  it("should parse a table without an MD5 entry", () => {
+    const table = PartitionTable.singleFactoryAppNoOta();
+
+    const parsed = PartitionTable.fromBinary(table.toBinary(false), 0x9000);
+
+    expect(parsed.entries).toEqual(table.entries);
+    expect(parsed.offset).toBe(0x9000);
+  });
+
+  it("should reject a table whose MD5 does not match", () => {
+    const binary = PartitionTable.singleFactoryAppNoOta().toBinary();
+    binary[8] ^= 0x01;
+
+    expect(() => PartitionTable.fromBinary(binary)).toThrow(
+      "Partition table MD5 does not match its entries.",
+    );
+  });
 });
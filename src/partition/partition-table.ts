@@ -27,6 +27,7 @@ import SparkMD5 from "spark-md5";
 const PARTITION_TABLE_OFFSET = 0x8000;
 const MAX_PARTITION_LENGTH = 0xc00;
 const PARTITION_TABLE_SIZE = 0x1000;
+const ENTRY_SIZE = 32;
 const MD5_PARTITION_BEGIN = new Uint8Array([
   0xeb,
   0xeb,
@@ -34,16 +35,63 @@ const MD5_PARTITION_BEGIN = new Uint8Array([
 ]);
 
 export class PartitionTable implements Partition {
-  private entries: PartitionEntry[] = [];
-  public readonly offset = PARTITION_TABLE_OFFSET;
+  public readonly entries: PartitionEntry[] = [];
   public readonly filename = "partition-table.bin";
 
-  constructor(definitions: PartitionDefinition[]) {
+  /**
+   * @param definitions The partitions. Those without an offset are placed
+   * after the previous one.
+   * @param offset Flash offset of the table itself.
+   */
+  constructor(
+    definitions: PartitionDefinition[],
+    public readonly offset = PARTITION_TABLE_OFFSET,
+  ) {
     this.processDefinitions(definitions);
   }
 
+  /**
+   * Parses a partition table binary. Reading stops at the MD5 entry, which
+   * is checked, or at the first empty entry.
+   * @param binary The table, starting at its first entry.
+   * @param offset Flash offset the table was read from.
+   * @throws Error if an entry is invalid or the MD5 does not match.
+   */
+  public static fromBinary(
+    binary: Uint8Array,
+    offset = PARTITION_TABLE_OFFSET,
+  ): PartitionTable {
+    const definitions: PartitionDefinition[] = [];
+    for (
+      let position = 0;
+      position + ENTRY_SIZE <= Math.min(binary.length, MAX_PARTITION_LENGTH);
+      position += ENTRY_SIZE
+    ) {
+      const entry = binary.subarray(position, position + ENTRY_SIZE);
+      if (entry.every((byte) => byte === 0xff)) {
+        break;
+      }
+      if (
+        entry[0] === MD5_PARTITION_BEGIN[0] &&
+        entry[1] === MD5_PARTITION_BEGIN[1]
+      ) {
+        const checksum = SparkMD5.ArrayBuffer.hash(
+          binary.slice(0, position).buffer,
+          true,
+        );
+        const expected = entry.subarray(MD5_PARTITION_BEGIN.length);
+        if (!expected.every((byte, i) => byte === checksum.charCodeAt(i))) {
+          throw new Error("Partition table MD5 does not match its entries.");
+        }
+        break;
+      }
+      definitions.push(PartitionEntry.fromBinary(entry));
+    }
+    return new PartitionTable(definitions, offset);
+  }
+
   private processDefinitions(definitions: PartitionDefinition[]) {
-    let lastEnd = PARTITION_TABLE_OFFSET + PARTITION_TABLE_SIZE;
+    let lastEnd = this.offset + PARTITION_TABLE_SIZE;
 
     for (const definition of definitions) {
       if (!definition.offset) {
@@ -64,26 +112,28 @@ export class PartitionTable implements Partition {
   }
 
   public toBinary(enableMD5 = true): Uint8Array {
-    let binary = new Uint8Array();
+    const binary = new Uint8Array(MAX_PARTITION_LENGTH).fill(0xff);
+    let length = 0;
     for (const entry of this.entries) {
-      binary = new Uint8Array([...binary, ...entry.toBinary()]);
+      const entryBinary = entry.toBinary();
+      binary.set(entryBinary, length);
+      length += entryBinary.length;
     }
 
     if (enableMD5) {
       // Use SparkMD5.ArrayBuffer.hash for binary data
-      const checksum = SparkMD5.ArrayBuffer.hash(binary.buffer, true);
-      const checksumBytes = Uint8Array.from(checksum, (c) => c.charCodeAt(0));
-      const md5Entry = new Uint8Array([
-        ...MD5_PARTITION_BEGIN,
-        ...new Uint8Array(checksumBytes),
-      ]);
-      binary = new Uint8Array([...binary, ...md5Entry]);
+      const checksum = SparkMD5.ArrayBuffer.hash(
+        binary.slice(0, length).buffer,
+        true,
+      );
+      binary.set(MD5_PARTITION_BEGIN, length);
+      binary.set(
+        Uint8Array.from(checksum, (c) => c.charCodeAt(0)),
+        length + MD5_PARTITION_BEGIN.length,
+      );
     }
 
-    const padding = new Uint8Array(MAX_PARTITION_LENGTH - binary.length).fill(
-      0xff,
-    );
-    return new Uint8Array([...binary, ...padding]);
+    return binary;
   }
 
   public static singleFactoryAppNoOta(): PartitionTable {
@@ -0,0 +1,183 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { spawn, spawnSync, ChildProcess } from "child_process";
+import { createInterface } from "readline";
+import { SerialPortMock } from "serialport";
+import {
+  NodeSerialTransport,
+  NodeSerialPortConstructor,
+} from "./node-serial-transport";
+import { SlipStreamDecoder } from "../esp/stream-transformers";
+import {
+  DEFAULT_ESP32_SERIAL_OPTIONS,
+  SerialController,
+} from "../esp/serial-controller";
+import { EspCommandSync } from "../esp/command.sync";
+
+const MOCK_PATH = "/dev/ttyMOCK0";
+const MockPort = SerialPortMock as unknown as NodeSerialPortConstructor;
+
+async function readAll(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  length: number,
+): Promise<Uint8Array> {
+  const received: number[] = [];
+  while (received.length < length) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    received.push(...value);
+  }
+  return new Uint8Array(received);
+}
+
+describe("NodeSerialTransport", () => {
+  beforeEach(() => {
+    SerialPortMock.binding.createPort(MOCK_PATH, { echo: true, record: true });
+  });
+
+  afterEach(() => {
+    SerialPortMock.binding.reset();
+    vi.restoreAllMocks();
+  });
+
+  it("should open the device path with the requested serial options", async () => {
+    const transport = new NodeSerialTransport(MOCK_PATH, MockPort);
+    await transport.open(DEFAULT_ESP32_SERIAL_OPTIONS);
+
+    expect(transport.readable).toBeInstanceOf(ReadableStream);
+    expect(transport.writable).toBeInstanceOf(WritableStream);
+    await transport.close();
+    expect(transport.readable).toBeNull();
+  });
+
+  it("should reject when the device cannot be opened", async () => {
+    const transport = new NodeSerialTransport("/dev/missing", MockPort);
+    await expect(
+      transport.open(DEFAULT_ESP32_SERIAL_OPTIONS),
+    ).rejects.toThrow();
+  });
+
+  it("should expose web-style streams over the port", async () => {
+    const transport = new NodeSerialTransport(MOCK_PATH, MockPort);
+    await transport.open(DEFAULT_ESP32_SERIAL_OPTIONS);
+
+    const data = new Uint8Array([0xc0, 0x01, 0x02, 0xc0]);
+    const writer = transport.writable!.getWriter();
+    await writer.write(data);
+    writer.releaseLock();
+
+    const reader = transport.readable!.getReader();
+    expect(await readAll(reader, data.length)).toEqual(data);
+    reader.releaseLock();
+    await transport.close();
+  });
+
+  it("should keep the other control line when setting one signal", async () => {
+    const setSpy = vi.spyOn(SerialPortMock.prototype, "set");
+    const transport = new NodeSerialTransport(MOCK_PATH, MockPort);
+    await transport.open(DEFAULT_ESP32_SERIAL_OPTIONS);
+
+    await transport.setSignals({ dataTerminalReady: true });
+    await transport.setSignals({ requestToSend: true });
+    await transport.setSignals({ dataTerminalReady: false });
+
+    expect(setSpy.mock.calls.map((call) => call[0])).toEqual([
+      { dtr: true, rts: false, brk: false },
+      { dtr: true, rts: true, brk: false },
+      { dtr: false, rts: true, brk: false },
+    ]);
+    await transport.close();
+  });
+
+  it("should throw when setting signals on a closed port", async () => {
+    const transport = new NodeSerialTransport(MOCK_PATH, MockPort);
+    await expect(
+      transport.setSignals({ dataTerminalReady: true }),
+    ).rejects.toThrow("Port is not open.");
+  });
+});
+
+// Creates a pseudo-terminal pair and echoes everything written to the slave
+// side back to it, so the real serialport bindings can be exercised.
+const PTY_LOOPBACK = `
+import os, pty, select, sys, tty
+master, slave = pty.openpty()
+tty.setraw(slave)
+print(os.ttyname(slave), flush=True)
+while True:
+    ready, _, _ = select.select([master, sys.stdin], [], [])
+    if sys.stdin in ready and not os.read(sys.stdin.fileno(), 1024):
+        break
+    if master in ready:
+        os.write(master, os.read(master, 1024))
+`;
+
+const hasPython =
+  process.platform !== "win32" &&
+  spawnSync("python3", ["--version"]).status === 0;
+
+describe.skipIf(!hasPython)("NodeSerialTransport on a pseudo-terminal", () => {
+  let loopback: ChildProcess;
+  let ptyPath: string;
+
+  beforeEach(async () => {
+    loopback = spawn("python3", ["-c", PTY_LOOPBACK]);
+    const lines = createInterface({ input: loopback.stdout! });
+    ptyPath = await new Promise<string>((resolve) =>
+      lines.once("line", resolve),
+    );
+  });
+
+  afterEach(() => {
+    loopback.stdin?.end();
+    loopback.kill();
+  });
+
+  it("should decode SLIP frames with SlipStreamDecoder", async () => {
+    const transport = new NodeSerialTransport(ptyPath);
+    await transport.open(DEFAULT_ESP32_SERIAL_OPTIONS);
+
+    const sync = new EspCommandSync();
+    const frames = transport
+      .readable!.pipeThrough(new SlipStreamDecoder())
+      .getReader();
+    const writer = transport.writable!.getWriter();
+    await writer.write(sync.getSlipStreamEncodedPacketData());
+    writer.releaseLock();
+
+    const { value } = await frames.read();
+    expect(value).toEqual(sync.getPacketData());
+    frames.releaseLock();
+    await transport.close();
+  });
+
+  it("should deliver lines through createLogStreamReader", async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    const controller = new SerialController(new NodeSerialTransport(ptyPath));
+    await controller.openPort();
+
+    const logStream = controller.createLogStreamReader()();
+    await controller.writeToConnection(
+      new TextEncoder().encode("I (31) boot: ESP-IDF\r\n"),
+    );
+
+    const { value } = await logStream.next();
+    expect(value).toBe("I (31) boot: ESP-IDF");
+    await controller.disconnect();
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SerialTransport, TRANSPORT_DISCONNECT_EVENT } from "./transport";
+
+type Callback = (error?: Error | null) => void;
+
+/**
+ * The subset of the `serialport` package's SerialPort stream used by the
+ * transport. Kept structural so the package stays an optional dependency.
+ */
+export interface NodeSerialPort {
+  readonly isOpen: boolean;
+  open(callback: Callback): void;
+  close(callback: Callback): void;
+  write(data: Uint8Array, callback: Callback): boolean;
+  drain(callback: Callback): void;
+  set(
+    options: { dtr?: boolean; rts?: boolean; brk?: boolean },
+    callback: Callback,
+  ): void;
+  on(event: "data", listener: (data: Uint8Array) => void): this;
+  on(
+    event: "close",
+    listener: (error?: Error & { disconnected?: boolean }) => void,
+  ): this;
+  on(event: "error", listener: (error: Error) => void): this;
+}
+
+/**
+ * Options accepted by the SerialPort constructor of the `serialport` package.
+ */
+export interface NodeSerialPortOptions {
+  path: string;
+  baudRate: number;
+  dataBits?: 5 | 6 | 7 | 8;
+  stopBits?: 1 | 1.5 | 2;
+  parity?: "none" | "even" | "odd";
+  rtscts?: boolean;
+  autoOpen: false;
+}
+
+export type NodeSerialPortConstructor = new (
+  options: NodeSerialPortOptions,
+) => NodeSerialPort;
+
+/**
+ * SerialTransport backed by the `serialport` package, for headless Node.js
+ * use. The package is loaded lazily when the port is opened, so it only needs
+ * to be installed by applications that use this transport.
+ * @example
+ * const controller = new SerialController(
+ *   new NodeSerialTransport("/dev/ttyUSB0"),
+ * );
+ * await controller.openPort();
+ */
+export class NodeSerialTransport
+  extends EventTarget
+  implements SerialTransport
+{
+  public readable: ReadableStream<Uint8Array> | null = null;
+  public writable: WritableStream<Uint8Array> | null = null;
+
+  private port: NodeSerialPort | undefined;
+  private signals = { dtr: false, rts: false, brk: false };
+
+  /**
+   * @param path The device path, e.g. `/dev/ttyUSB0` or `COM3`.
+   * @param portConstructor SerialPort implementation to use instead of the one
+   * from the `serialport` package, e.g. `SerialPortMock` in tests.
+   */
+  constructor(
+    public readonly path: string,
+    private readonly portConstructor?: NodeSerialPortConstructor,
+  ) {
+    super();
+  }
+
+  public async open(options: SerialOptions): Promise<void> {
+    const PortConstructor =
+      this.portConstructor ??
+      ((await import("serialport"))
+        .SerialPort as unknown as NodeSerialPortConstructor);
+
+    const port = new PortConstructor({
+      path: this.path,
+      baudRate: options.baudRate,
+      dataBits: options.dataBits as NodeSerialPortOptions["dataBits"],
+      stopBits: options.stopBits as NodeSerialPortOptions["stopBits"],
+      parity: (options.parity as NodeSerialPortOptions["parity"]) ?? "none",
+      rtscts: options.flowControl === "hardware",
+      autoOpen: false,
+    });
+    await new Promise<void>((resolve, reject) =>
+      port.open((error) => (error ? reject(error) : resolve())),
+    );
+
+    this.port = port;
+    this.readable = this.createReadable(port);
+    this.writable = this.createWritable(port);
+  }
+
+  public async close(): Promise<void> {
+    const port = this.port;
+    this.port = undefined;
+    this.readable = null;
+    this.writable = null;
+    if (!port?.isOpen) return;
+
+    await new Promise<void>((resolve, reject) =>
+      port.close((error) => (error ? reject(error) : resolve())),
+    );
+  }
+
+  public async setSignals(signals: SerialOutputSignals): Promise<void> {
+    const port = this.port;
+    if (!port) {
+      throw new Error("Port is not open.");
+    }
+
+    // serialport resets omitted lines to their defaults, so always send the
+    // full set to keep the Web Serial semantics.
+    this.signals = {
+      dtr: signals.dataTerminalReady ?? this.signals.dtr,
+      rts: signals.requestToSend ?? this.signals.rts,
+      brk: signals.break ?? this.signals.brk,
+    };
+    await new Promise<void>((resolve, reject) =>
+      port.set(this.signals, (error) => (error ? reject(error) : resolve())),
+    );
+  }
+
+  private createReadable(port: NodeSerialPort): ReadableStream<Uint8Array> {
+    return new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        let closed = false;
+        port.on("data", (data) => {
+          if (!closed) controller.enqueue(new Uint8Array(data));
+        });
+        port.on("error", (error) => {
+          if (closed) return;
+          closed = true;
+          controller.error(error);
+        });
+        port.on("close", (error) => {
+          if (error?.disconnected) {
+            this.dispatchEvent(new Event(TRANSPORT_DISCONNECT_EVENT));
+          }
+          if (closed) return;
+          closed = true;
+          controller.close();
+        });
+      },
+    });
+  }
+
+  private createWritable(port: NodeSerialPort): WritableStream<Uint8Array> {
+    return new WritableStream<Uint8Array>({
+      write: (chunk) =>
+        new Promise<void>((resolve, reject) => {
+          port.write(chunk, (error) => {
+            if (error) return reject(error);
+            port.drain((drainError) =>
+              drainError ? reject(drainError) : resolve(),
+            );
+          });
+        }),
+    });
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Name of the event a transport dispatches when the underlying device goes away.
+ */
+export const TRANSPORT_DISCONNECT_EVENT = "disconnect";
+
+/**
+ * A byte-oriented serial link to an ESP device.
+ *
+ * The SerialController only talks to the device through this interface, so the
+ * same sync, stub and flashing logic runs on Web Serial, Node.js or an
+ * in-process test double. Implementations dispatch a `disconnect` event when
+ * the device is lost.
+ */
+export interface SerialTransport extends EventTarget {
+  /** Stream of raw bytes received from the device. Null while closed. */
+  readonly readable: ReadableStream<Uint8Array> | null;
+  /** Stream of raw bytes sent to the device. Null while closed. */
+  readonly writable: WritableStream<Uint8Array> | null;
+
+  /**
+   * Opens the link with the given line settings.
+   * @param options Baud rate, framing and flow control settings.
+   */
+  open(options: SerialOptions): Promise<void>;
+
+  /**
+   * Closes the link and releases the underlying device.
+   */
+  close(): Promise<void>;
+
+  /**
+   * Sets the DTR and/or RTS control lines. Lines that are omitted keep their
+   * current state.
+   * @param signals The control line states to apply.
+   */
+  setSignals(signals: SerialOutputSignals): Promise<void>;
+
+  /**
+   * Optionally tries to locate the device again after it disappeared, for
+   * example when a native USB chip re-enumerates after a reset.
+   * @returns True when the transport is ready to be opened again.
+   */
+  reconnect?(): Promise<boolean>;
+}
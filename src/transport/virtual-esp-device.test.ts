@@ -0,0 +1,238 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import SparkMD5 from "spark-md5";
+import { VirtualEspDevice } from "./virtual-esp-device";
+import { EspCommand, EspCommandPacket } from "../esp/command";
+import { ChipFamily } from "../esp/serial-controller";
+import { SlipStreamDecoder } from "../esp/stream-transformers";
+import { EspCommandSync } from "../esp/command.sync";
+import { EspCommandReadReg } from "../esp/command.read-reg";
+import { EspCommandFlashBegin } from "../esp/command.flash-begin";
+import { EspCommandFlashData } from "../esp/command.flash-data";
+import { EspCommandSpiFlashMD5 } from "../esp/command.spi-flash-md5";
+import { EspCommandMemEnd } from "../esp/command.mem-end";
+import { EspCommandEraseRegion } from "../esp/command.erase-region";
+import { slipEncode, toHex } from "../utils/common";
+
+describe("VirtualEspDevice", () => {
+  let device: VirtualEspDevice;
+  let frames: ReadableStreamDefaultReader<Uint8Array>;
+
+  const send = async (data: Uint8Array) => {
+    const writer = device.writable!.getWriter();
+    await writer.write(data);
+    writer.releaseLock();
+  };
+
+  // The ESP32-S3 ROM sends four status bytes, the stub two.
+  const request = async (command: EspCommandPacket, statusLength = 4) => {
+    await send(command.getSlipStreamEncodedPacketData());
+    const { value } = await frames.read();
+    const response = new EspCommandPacket();
+    response.parseResponse(value!, statusLength);
+    return response;
+  };
+
+  beforeEach(async () => {
+    device = new VirtualEspDevice({ chip: ChipFamily.ESP32S3 });
+    await device.open();
+    frames = device.readable!.pipeThrough(new SlipStreamDecoder()).getReader();
+  });
+
+  afterEach(async () => {
+    frames.releaseLock();
+    await device.close();
+  });
+
+  it("should answer SYNC", async () => {
+    const response = await request(new EspCommandSync());
+    expect(response.command).toBe(EspCommand.SYNC);
+    expect(response.status).toBe(0);
+  });
+
+  it("should report the chip magic value through READ_REG", async () => {
+    const response = await request(new EspCommandReadReg(0x40001000));
+    expect(response.value).toBe(ChipFamily.ESP32S3);
+  });
+
+  it("should start the stub and greet with OHAI", async () => {
+    await send(
+      new EspCommandMemEnd(0, 0x4008_0000).getSlipStreamEncodedPacketData(),
+    );
+    const { value: memEnd } = await frames.read();
+    expect(memEnd![1]).toBe(EspCommand.MEM_END);
+    const { value: ohai } = await frames.read();
+    expect(new TextDecoder().decode(ohai)).toBe("OHAI");
+    expect(device.stubRunning).toBe(true);
+  });
+
+  it("should write flash data to the virtual flash", async () => {
+    const image = new Uint8Array(0x1800).map((_, i) => i & 0xff);
+    await request(new EspCommandFlashBegin(image, 0x10000, 0x400, 6, false));
+    for (let i = 0; i < 6; i++) {
+      const response = await request(new EspCommandFlashData(image, i, 0x400));
+      expect(response.status).toBe(0);
+    }
+
+    expect(device.flash.subarray(0x10000, 0x11800)).toEqual(image);
+    // The tail of the last block is padded with 0xFF.
+    expect(device.flash[0x11800]).toBe(0xff);
+  });
+
+  it("should reject flash data with a bad checksum", async () => {
+    const image = new Uint8Array(0x400).fill(0x42);
+    await request(new EspCommandFlashBegin(image, 0x0, 0x400, 1, false));
+    const data = new EspCommandFlashData(image, 0, 0x400);
+    data.checksum = data.checksum ^ 0xff;
+
+    const response = await request(data);
+    expect(response.status).toBe(1);
+    expect(response.error).toBe(0x07);
+  });
+
+  it("should expect the encrypted word in FLASH_BEGIN from ESP32-S2 and later ROMs", async () => {
+    const image = new Uint8Array(0x400);
+    const fourWords = await request(
+      new EspCommandFlashBegin(image, 0x0, 0x400, 1),
+    );
+    expect(fourWords.status).toBe(1);
+    expect(fourWords.error).toBe(0x05);
+
+    const fiveWords = await request(
+      new EspCommandFlashBegin(image, 0x0, 0x400, 1, false),
+    );
+    expect(fiveWords.status).toBe(0);
+  });
+
+  it("should take four FLASH_BEGIN words from the ESP32 ROM", async () => {
+    await device.close();
+    device = new VirtualEspDevice({ chip: ChipFamily.ESP32 });
+    await device.open();
+    frames = device.readable!.pipeThrough(new SlipStreamDecoder()).getReader();
+    const image = new Uint8Array(0x400);
+
+    const response = await request(
+      new EspCommandFlashBegin(image, 0x0, 0x400, 1),
+    );
+    expect(response.status).toBe(0);
+  });
+
+  it("should reject ROM flash blocks larger than 0x400 bytes", async () => {
+    const image = new Uint8Array(0x1000);
+    const begin = await request(
+      new EspCommandFlashBegin(image, 0x0, 0x1000, 1, false),
+    );
+    expect(begin.error).toBe(0x05);
+
+    await request(new EspCommandFlashBegin(image, 0x0, 0x400, 4, false));
+    const data = await request(new EspCommandFlashData(image, 0, 0x1000));
+    expect(data.error).toBe(0x05);
+  });
+
+  it("should return the flash MD5 as hex text from the ROM", async () => {
+    device.flash.fill(0x00, 0, 0x1000);
+    const response = await request(new EspCommandSpiFlashMD5(0, 0x1000));
+    const expected = SparkMD5.ArrayBuffer.hash(new ArrayBuffer(0x1000));
+    expect(new TextDecoder().decode(response.data.subarray(0, 32))).toBe(
+      expected,
+    );
+  });
+
+  it("should stream READ_FLASH data with acknowledgements once the stub runs", async () => {
+    device.stubRunning = true;
+    device.flash.set([1, 2, 3, 4, 5, 6], 0x2000);
+    const readFlash = new EspCommandPacket();
+    readFlash.command = EspCommand.READ_FLASH;
+    const payload = new DataView(new ArrayBuffer(16));
+    [0x2000, 6, 4, 1].forEach((v, i) => payload.setUint32(i * 4, v, true));
+    readFlash.data = new Uint8Array(payload.buffer);
+
+    const response = await request(readFlash, 2);
+    expect(response.status).toBe(0);
+
+    const { value: first } = await frames.read();
+    expect(first).toEqual(new Uint8Array([1, 2, 3, 4]));
+    await send(slipEncode(new Uint8Array([4, 0, 0, 0])));
+    const { value: second } = await frames.read();
+    expect(second).toEqual(new Uint8Array([5, 6]));
+    await send(slipEncode(new Uint8Array([6, 0, 0, 0])));
+    const { value: digest } = await frames.read();
+    expect(toHex(digest!)).toBe(
+      SparkMD5.ArrayBuffer.hash(new Uint8Array([1, 2, 3, 4, 5, 6]).buffer),
+    );
+  });
+
+  it("should reject READ_FLASH in the ROM loader", async () => {
+    const readFlash = new EspCommandPacket();
+    readFlash.command = EspCommand.READ_FLASH;
+    readFlash.data = new Uint8Array(16);
+    const response = await request(readFlash);
+    expect(response.status).toBe(1);
+  });
+
+  it("should only erase regions once the stub runs", async () => {
+    device.flash.fill(0x00, 0, 0x2000);
+    const erase = new EspCommandEraseRegion(0x1000, 0x1000);
+    expect((await request(erase)).status).toBe(1);
+
+    device.stubRunning = true;
+    expect((await request(erase, 2)).status).toBe(0);
+    expect(device.flash[0x0fff]).toBe(0x00);
+    expect(device.flash[0x1000]).toBe(0xff);
+  });
+
+  describe("fault injection", () => {
+    it("should drop a request", async () => {
+      device.injectFault({ type: "drop", command: EspCommand.SYNC });
+      await send(new EspCommandSync().getSlipStreamEncodedPacketData());
+      const response = await request(new EspCommandReadReg(0x40001000));
+      expect(response.command).toBe(EspCommand.READ_REG);
+      expect(device.receivedCommands).toEqual([
+        EspCommand.SYNC,
+        EspCommand.READ_REG,
+      ]);
+    });
+
+    it("should answer with a checksum error", async () => {
+      device.injectFault({ type: "checksum-error", count: 2 });
+      expect((await request(new EspCommandSync())).error).toBe(0x07);
+      expect((await request(new EspCommandSync())).error).toBe(0x07);
+      expect((await request(new EspCommandSync())).status).toBe(0);
+    });
+
+    it("should disconnect", async () => {
+      const listener = vi.fn();
+      device.addEventListener("disconnect", listener);
+      device.injectFault({ type: "disconnect" });
+      await send(new EspCommandSync().getSlipStreamEncodedPacketData());
+
+      await expect(frames.read()).rejects.toThrow("The device has been lost.");
+      expect(listener).toHaveBeenCalledOnce();
+      await expect(device.open()).rejects.toThrow();
+      await expect(device.reconnect()).resolves.toBe(true);
+    });
+  });
+
+  it("should boot into the loader when EN is released with IO0 low", async () => {
+    device.stubRunning = true;
+    await device.setSignals({ dataTerminalReady: true, requestToSend: true });
+    await device.setSignals({ requestToSend: false });
+    expect(device.stubRunning).toBe(false);
+    expect((await request(new EspCommandSync())).status).toBe(0);
+  });
+});
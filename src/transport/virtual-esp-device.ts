@@ -0,0 +1,808 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import SparkMD5 from "spark-md5";
+import { SerialTransport, TRANSPORT_DISCONNECT_EVENT } from "./transport";
+import { EspCommand, EspPacketDirection } from "../esp/command";
+import { ChipFamily, getChipTarget } from "../esp/chip-targets";
+import { SPIFLASH_RDID } from "../esp/spi-flash";
+import { SecurityInfoFlag } from "../esp/security-info";
+import { SlipStreamDecoder } from "../esp/stream-transformers";
+import { inflate, sleep, slipEncode } from "../utils/common";
+
+const CHIP_DETECT_MAGIC_REG_ADDR = 0x40001000;
+const FLASH_SECTOR_SIZE = 0x1000;
+/** Largest FLASH_DATA block the ROM loader accepts. */
+const ROM_FLASH_WRITE_SIZE = 0x400;
+const SPI_CMD_USR = 1 << 18;
+const OHAI = new Uint8Array([0x4f, 0x48, 0x41, 0x49]);
+
+/** Error codes the loaders put in the second status byte. */
+enum LoaderError {
+  INVALID_MESSAGE = 0x05,
+  FAILED_TO_ACT = 0x06,
+  INVALID_CRC = 0x07,
+  DEFLATE_ERROR = 0x0b,
+}
+
+/**
+ * A fault the virtual device applies to the next matching request.
+ * - `drop`: the request is swallowed and never answered.
+ * - `checksum-error`: the request is answered with an "Invalid CRC" error.
+ * - `disconnect`: the device disappears as if the USB cable was pulled.
+ */
+export interface VirtualEspFault {
+  type: "drop" | "checksum-error" | "disconnect";
+  /** Only apply the fault to this command. Applies to any command if omitted. */
+  command?: EspCommand;
+  /** Number of matching requests to apply the fault to. Defaults to 1. */
+  count?: number;
+}
+
+/**
+ * Options for creating a VirtualEspDevice.
+ */
+export interface VirtualEspDeviceOptions {
+  /** The chip to emulate. Defaults to ESP32. */
+  chip?: ChipFamily;
+  /** Size of the virtual flash in bytes. Defaults to 4MB. */
+  flashSize?: number;
+  /** Highest baud rate the virtual link carries reliably. Defaults to no limit. */
+  maxBaudRate?: number;
+  /** JEDEC ID of the flash chip. Defaults to a Winbond part of flashSize. */
+  flashId?: number;
+  /**
+   * Emulate a chip in secure download mode, whose ROM only accepts the
+   * commands in SECURE_DOWNLOAD_COMMANDS. Not available on ESP32 and ESP8266.
+   */
+  secureDownloadMode?: boolean;
+  /**
+   * Milliseconds the ROM loader takes to erase a megabyte, which it does
+   * before answering FLASH_BEGIN and FLASH_DEFL_BEGIN. Defaults to 0.
+   */
+  romEraseTimePerMb?: number;
+}
+
+/** Commands the ROM loader still accepts in secure download mode. */
+const SECURE_DOWNLOAD_COMMANDS = new Set([
+  EspCommand.SYNC,
+  EspCommand.FLASH_BEGIN,
+  EspCommand.FLASH_DATA,
+  EspCommand.FLASH_END,
+  EspCommand.FLASH_DEFL_BEGIN,
+  EspCommand.FLASH_DEFL_DATA,
+  EspCommand.FLASH_DEFL_END,
+  EspCommand.SPI_ATTACH,
+  EspCommand.SPI_SET_PARAMS,
+  EspCommand.CHANGE_BAUDRATE,
+  EspCommand.GET_SECURITY_INFO,
+]);
+
+interface FlashSession {
+  offset: number;
+  blockSize: number;
+}
+
+interface DeflateSession {
+  offset: number;
+  writeSize: number;
+  numBlocks: number;
+  received: Uint8Array[];
+}
+
+interface ReadFlashSession {
+  data: Uint8Array;
+  packetSize: number;
+  maxInFlight: number;
+  sent: number;
+  acked: number;
+}
+
+/**
+ * In-process SerialTransport that emulates the ESP serial ROM loader and the
+ * flasher stub. It keeps a virtual flash array that can be inspected after
+ * flashing, and can inject faults to exercise error handling.
+ * @example
+ * const device = new VirtualEspDevice({ chip: ChipFamily.ESP32S3 });
+ * const controller = new SerialController(device);
+ * await controller.openPort();
+ * await controller.flashImage(image);
+ * device.flash.subarray(0x10000, 0x10000 + app.length);
+ */
+export class VirtualEspDevice extends EventTarget implements SerialTransport {
+  public readable: ReadableStream<Uint8Array> | null = null;
+  public writable: WritableStream<Uint8Array> | null = null;
+
+  /** The emulated chip. */
+  public readonly chip: ChipFamily;
+  /** Contents of the virtual SPI flash. */
+  public readonly flash: Uint8Array;
+  /** Register values returned by READ_REG, keyed by address. */
+  public readonly registers = new Map<number, number>();
+  /** Whether the flasher stub has been uploaded and started. */
+  public stubRunning = false;
+  /** Every request received, in order. */
+  public readonly receivedCommands: EspCommand[] = [];
+  /**
+   * Baud rate the loader's UART is set to. Undefined while the ROM detects
+   * the host's rate automatically, as it does after a reset.
+   */
+  public baudRate: number | undefined;
+
+  private faults: VirtualEspFault[] = [];
+  private outputController:
+    | ReadableStreamDefaultController<Uint8Array>
+    | undefined;
+  private signals = { dtr: false, rts: false };
+  private inDownloadMode = true;
+  private lost = false;
+  private hostBaudRate = 115200;
+  private readonly maxBaudRate: number;
+  private readonly flashId: number;
+  private readonly secureDownloadMode: boolean;
+  private readonly romEraseTimePerMb: number;
+  private memory = new Map<number, Uint8Array>();
+  private memSession: FlashSession | undefined;
+  private flashSession: FlashSession | undefined;
+  private deflateSession: DeflateSession | undefined;
+  private readFlashSession: ReadFlashSession | undefined;
+
+  constructor(options: VirtualEspDeviceOptions = {}) {
+    super();
+    this.chip = options.chip ?? ChipFamily.ESP32;
+    this.flash = new Uint8Array(options.flashSize ?? 4 * 1024 * 1024).fill(
+      0xff,
+    );
+    this.registers.set(CHIP_DETECT_MAGIC_REG_ADDR, this.chip);
+    this.maxBaudRate = options.maxBaudRate ?? Infinity;
+    this.flashId =
+      options.flashId ??
+      0xef | (0x40 << 8) | (Math.log2(this.flash.length) << 16);
+    this.secureDownloadMode = options.secureDownloadMode ?? false;
+    this.romEraseTimePerMb = options.romEraseTimePerMb ?? 0;
+  }
+
+  /**
+   * Queues a fault to apply to upcoming requests.
+   * @param fault The fault to inject.
+   */
+  public injectFault(fault: VirtualEspFault): void {
+    this.faults.push({ count: 1, ...fault });
+  }
+
+  public async open(options?: SerialOptions): Promise<void> {
+    if (this.lost) {
+      throw new Error("The device has been lost.");
+    }
+    this.hostBaudRate = options?.baudRate ?? this.hostBaudRate;
+    this.readable = new ReadableStream<Uint8Array>({
+      start: (controller) => {
+        this.outputController = controller;
+      },
+    });
+
+    const decoder = new SlipStreamDecoder();
+    this.writable = decoder.writable;
+    this.processFrames(decoder.readable.getReader());
+  }
+
+  public async close(): Promise<void> {
+    try {
+      this.outputController?.close();
+    } catch {
+      // The stream may already be errored or closed.
+    }
+    this.outputController = undefined;
+    this.readable = null;
+    this.writable = null;
+  }
+
+  public async setSignals(signals: SerialOutputSignals): Promise<void> {
+    const previousRts = this.signals.rts;
+    this.signals = {
+      dtr: signals.dataTerminalReady ?? this.signals.dtr,
+      rts: signals.requestToSend ?? this.signals.rts,
+    };
+    // RTS drives EN through the auto-reset circuit, DTR drives IO0. Releasing
+    // EN boots the chip, into the loader if IO0 is held low at that moment.
+    if (previousRts && !this.signals.rts) {
+      this.reset(this.signals.dtr);
+    }
+  }
+
+  /**
+   * The virtual device always re-appears after a disconnect.
+   */
+  public async reconnect(): Promise<boolean> {
+    this.lost = false;
+    return true;
+  }
+
+  /**
+   * Resets the chip.
+   * @param downloadMode True to boot into the ROM loader, false to run the app.
+   */
+  public reset(downloadMode = true): void {
+    this.inDownloadMode = downloadMode;
+    this.stubRunning = false;
+    this.baudRate = undefined;
+    this.flashSession = undefined;
+    this.deflateSession = undefined;
+    this.memSession = undefined;
+    this.readFlashSession = undefined;
+    this.emit(
+      new TextEncoder().encode(
+        downloadMode
+          ? "rst:0x1 (POWERON_RESET),boot:0x3 (DOWNLOAD_BOOT)\r\nwaiting for download\r\n"
+          : "rst:0x1 (POWERON_RESET),boot:0x13 (SPI_FAST_FLASH_BOOT)\r\n",
+      ),
+    );
+  }
+
+  /**
+   * Simulates the USB device going away.
+   */
+  public disconnect(): void {
+    this.lost = true;
+    const error = new Error("The device has been lost.");
+    error.name = "NetworkError";
+    try {
+      this.outputController?.error(error);
+    } catch {
+      // The stream may already be closed.
+    }
+    this.outputController = undefined;
+    this.dispatchEvent(new Event(TRANSPORT_DISCONNECT_EVENT));
+  }
+
+  private emit(data: Uint8Array): void {
+    try {
+      this.outputController?.enqueue(data);
+    } catch {
+      // The host closed the port; the data is lost like on a real wire.
+    }
+  }
+
+  private async processFrames(
+    reader: ReadableStreamDefaultReader<Uint8Array>,
+  ): Promise<void> {
+    try {
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) return;
+        if (this.lost) continue;
+        await this.handleFrame(value);
+      }
+    } catch {
+      // The host aborted the stream.
+    }
+  }
+
+  private async handleFrame(frame: Uint8Array): Promise<void> {
+    if (!this.linkUp()) {
+      // Mismatched baud rates turn everything into noise.
+      return;
+    }
+    if (this.readFlashSession && frame.length === 4) {
+      this.handleReadFlashAck(frame);
+      return;
+    }
+    if (frame.length < 8 || frame[0] !== EspPacketDirection.REQUEST) {
+      return;
+    }
+    if (!this.inDownloadMode) {
+      return;
+    }
+
+    const view = new DataView(frame.buffer, frame.byteOffset, frame.length);
+    const command = view.getUint8(1) as EspCommand;
+    const size = view.getUint16(2, true);
+    const checksum = view.getUint32(4, true);
+    const data = frame.subarray(8, 8 + size);
+    this.receivedCommands.push(command);
+
+    const fault = this.takeFault(command);
+    if (fault?.type === "drop") {
+      return;
+    }
+    if (fault?.type === "disconnect") {
+      this.disconnect();
+      return;
+    }
+    if (fault?.type === "checksum-error") {
+      this.respondError(command, LoaderError.INVALID_CRC);
+      return;
+    }
+
+    await this.handleCommand(command, data, checksum);
+  }
+
+  private linkUp(): boolean {
+    return (
+      this.hostBaudRate <= this.maxBaudRate &&
+      (this.baudRate === undefined || this.baudRate === this.hostBaudRate)
+    );
+  }
+
+  private takeFault(command: EspCommand): VirtualEspFault | undefined {
+    const fault = this.faults.find(
+      (f) => f.command === undefined || f.command === command,
+    );
+    if (!fault) return undefined;
+    fault.count = (fault.count ?? 1) - 1;
+    if (fault.count <= 0) {
+      this.faults.splice(this.faults.indexOf(fault), 1);
+    }
+    return fault;
+  }
+
+  private async handleCommand(
+    command: EspCommand,
+    data: Uint8Array,
+    checksum: number,
+  ): Promise<void> {
+    const view = new DataView(data.buffer, data.byteOffset, data.length);
+    const word = (index: number) => view.getUint32(index * 4, true);
+
+    if (this.secureDownloadMode && !SECURE_DOWNLOAD_COMMANDS.has(command)) {
+      this.respondError(command, LoaderError.INVALID_MESSAGE);
+      return;
+    }
+
+    switch (command) {
+      case EspCommand.SYNC:
+        this.respond(command);
+        return;
+      case EspCommand.READ_REG:
+        this.respond(command, this.registers.get(word(0)) ?? 0);
+        return;
+      case EspCommand.WRITE_REG: {
+        const address = word(0);
+        const mask = word(2);
+        const current = this.registers.get(address) ?? 0;
+        this.registers.set(
+          address,
+          ((current & ~mask) | (word(1) & mask)) >>> 0,
+        );
+        this.runSpiCommand(address);
+        this.respond(command);
+        return;
+      }
+      case EspCommand.SPI_ATTACH:
+      case EspCommand.SPI_SET_PARAMS:
+        this.respond(command);
+        return;
+      case EspCommand.MEM_BEGIN:
+        this.memSession = { offset: word(3), blockSize: word(2) };
+        this.respond(command);
+        return;
+      case EspCommand.MEM_DATA:
+        this.handleMemData(data, checksum);
+        return;
+      case EspCommand.MEM_END:
+        this.handleMemEnd(word(0));
+        return;
+      case EspCommand.FLASH_BEGIN:
+        if (!this.isValidFlashBegin(data)) break;
+        await this.handleFlashBegin(word(0), word(2), word(3));
+        return;
+      case EspCommand.FLASH_DATA:
+        this.handleFlashData(data, checksum);
+        return;
+      case EspCommand.FLASH_END:
+        this.flashSession = undefined;
+        this.respond(command);
+        // 0 reboots. Otherwise the ROM runs the app, the stub stays.
+        if (word(0) === 0 || !this.stubRunning) {
+          this.reset(false);
+        }
+        return;
+      case EspCommand.FLASH_DEFL_BEGIN:
+        if (!this.isValidFlashBegin(data)) break;
+        await this.handleFlashDeflBegin(word(0), word(1), word(3));
+        return;
+      case EspCommand.FLASH_DEFL_DATA:
+        await this.handleFlashDeflData(data, checksum);
+        return;
+      case EspCommand.FLASH_DEFL_END:
+        this.deflateSession = undefined;
+        this.respond(command);
+        if (word(0) === 0) {
+          this.reset(false);
+        }
+        return;
+      case EspCommand.SPI_FLASH_MD5:
+        this.handleFlashMd5(word(0), word(1));
+        return;
+      case EspCommand.READ_FLASH:
+        this.handleReadFlash(word(0), word(1), word(2), word(3));
+        return;
+      case EspCommand.GET_SECURITY_INFO:
+        if (
+          this.chip === ChipFamily.ESP32 ||
+          this.chip === ChipFamily.ESP8266
+        ) {
+          break;
+        }
+        this.respond(command, 0, this.securityInfo());
+        return;
+      case EspCommand.CHANGE_BAUDRATE:
+        // The acknowledgement still goes out at the old rate.
+        this.respond(command);
+        this.baudRate = word(0);
+        return;
+      case EspCommand.RUN_USER_CODE:
+        // The stub resets into the app without answering.
+        if (!this.stubRunning) break;
+        this.reset(false);
+        return;
+      case EspCommand.ERASE_FLASH:
+        if (!this.stubRunning) break;
+        this.flash.fill(0xff);
+        this.respond(command);
+        return;
+      case EspCommand.ERASE_REGION:
+        if (!this.stubRunning) break;
+        this.handleEraseRegion(word(0), word(1));
+        return;
+    }
+    this.respondError(command, LoaderError.INVALID_MESSAGE);
+  }
+
+  /**
+   * Emulates the SPI controller running a user command once the USR bit is
+   * set in its command register. Only RDID is implemented.
+   */
+  private runSpiCommand(address: number): void {
+    const regs = getChipTarget(this.chip).spiRegisters;
+    const cmd = this.registers.get(regs.base) ?? 0;
+    if (address !== regs.base || !(cmd & SPI_CMD_USR)) {
+      return;
+    }
+    const flashCommand =
+      (this.registers.get(regs.base + regs.usr2) ?? 0) & 0xff;
+    if (flashCommand === SPIFLASH_RDID) {
+      this.registers.set(regs.base + regs.w0, this.flashId);
+    }
+    this.registers.set(regs.base, (cmd & ~SPI_CMD_USR) >>> 0);
+  }
+
+  private securityInfo(): Uint8Array {
+    // flags (4), flash_crypt_cnt (1), key_purposes (7), chip_id (4), eco (4).
+    // The ESP32-S2 ROM stops after the key purposes.
+    const info = new Uint8Array(this.chip === ChipFamily.ESP32S2 ? 12 : 20);
+    if (this.secureDownloadMode) {
+      info[0] = SecurityInfoFlag.SECURE_DOWNLOAD_ENABLE;
+    }
+    if (info.length > 12) {
+      new DataView(info.buffer).setUint32(
+        12,
+        getChipTarget(this.chip).chipId ?? 0,
+        true,
+      );
+    }
+    return info;
+  }
+
+  private handleEraseRegion(offset: number, size: number): void {
+    const command = EspCommand.ERASE_REGION;
+    if (
+      offset % FLASH_SECTOR_SIZE !== 0 ||
+      size % FLASH_SECTOR_SIZE !== 0 ||
+      offset + size > this.flash.length
+    ) {
+      this.respondError(command, LoaderError.FAILED_TO_ACT);
+      return;
+    }
+    this.flash.fill(0xff, offset, offset + size);
+    this.respond(command);
+  }
+
+  private handleMemData(data: Uint8Array, checksum: number): void {
+    const command = EspCommand.MEM_DATA;
+    if (!this.memSession) {
+      this.respondError(command, LoaderError.FAILED_TO_ACT);
+      return;
+    }
+    const view = new DataView(data.buffer, data.byteOffset, data.length);
+    const size = view.getUint32(0, true);
+    const sequence = view.getUint32(4, true);
+    const block = data.slice(16, 16 + size);
+    if (xorChecksum(block) !== checksum) {
+      this.respondError(command, LoaderError.INVALID_CRC);
+      return;
+    }
+    this.memory.set(
+      this.memSession.offset + sequence * this.memSession.blockSize,
+      block,
+    );
+    this.respond(command);
+  }
+
+  private handleMemEnd(noEntry: number): void {
+    this.memSession = undefined;
+    this.respond(EspCommand.MEM_END);
+    // An execute flag of 0 jumps to the entry point, which is the stub.
+    if (noEntry === 0) {
+      this.stubRunning = true;
+      this.emit(slipEncode(OHAI));
+    }
+  }
+
+  /**
+   * Checks the FLASH_BEGIN and FLASH_DEFL_BEGIN parameters the ROM loader is
+   * strict about: the fifth "encrypted" word on the ESP32-S2 and later chips
+   * and blocks of at most ROM_FLASH_WRITE_SIZE. The stub takes four words.
+   */
+  private isValidFlashBegin(data: Uint8Array): boolean {
+    if (this.stubRunning) {
+      return data.length === 16;
+    }
+    const words = getChipTarget(this.chip).supportsEncryptedFlash ? 5 : 4;
+    if (data.length !== words * 4) {
+      return false;
+    }
+    const view = new DataView(data.buffer, data.byteOffset, data.length);
+    return view.getUint32(8, true) <= ROM_FLASH_WRITE_SIZE;
+  }
+
+  /**
+   * The ROM erases the whole region before it answers, the stub erases as it
+   * writes.
+   */
+  private async romErase(size: number): Promise<void> {
+    if (!this.stubRunning && this.romEraseTimePerMb > 0) {
+      await sleep((size / 0x100000) * this.romEraseTimePerMb);
+    }
+  }
+
+  private async handleFlashBegin(
+    eraseSize: number,
+    blockSize: number,
+    offset: number,
+  ): Promise<void> {
+    const command = EspCommand.FLASH_BEGIN;
+    if (offset + eraseSize > this.flash.length) {
+      this.respondError(command, LoaderError.FAILED_TO_ACT);
+      return;
+    }
+    await this.romErase(eraseSize);
+    const eraseEnd = Math.min(
+      this.flash.length,
+      Math.ceil((offset + eraseSize) / FLASH_SECTOR_SIZE) * FLASH_SECTOR_SIZE,
+    );
+    this.flash.fill(0xff, offset, eraseEnd);
+    this.flashSession = { offset, blockSize };
+    this.respond(command);
+  }
+
+  private handleFlashData(data: Uint8Array, checksum: number): void {
+    const command = EspCommand.FLASH_DATA;
+    if (!this.flashSession) {
+      this.respondError(command, LoaderError.FAILED_TO_ACT);
+      return;
+    }
+    const view = new DataView(data.buffer, data.byteOffset, data.length);
+    const size = view.getUint32(0, true);
+    const sequence = view.getUint32(4, true);
+    if (!this.stubRunning && size > ROM_FLASH_WRITE_SIZE) {
+      this.respondError(command, LoaderError.INVALID_MESSAGE);
+      return;
+    }
+    const block = data.subarray(16, 16 + size);
+    if (block.length !== size || xorChecksum(block) !== checksum) {
+      this.respondError(command, LoaderError.INVALID_CRC);
+      return;
+    }
+    const address =
+      this.flashSession.offset + sequence * this.flashSession.blockSize;
+    this.flash.set(
+      block.subarray(0, Math.max(0, this.flash.length - address)),
+      address,
+    );
+    this.respond(command);
+  }
+
+  private async handleFlashDeflBegin(
+    writeSize: number,
+    numBlocks: number,
+    offset: number,
+  ): Promise<void> {
+    if (offset + writeSize > this.flash.length) {
+      this.respondError(EspCommand.FLASH_DEFL_BEGIN, LoaderError.FAILED_TO_ACT);
+      return;
+    }
+    await this.romErase(writeSize);
+    this.deflateSession = { offset, writeSize, numBlocks, received: [] };
+    this.respond(EspCommand.FLASH_DEFL_BEGIN);
+  }
+
+  private async handleFlashDeflData(
+    data: Uint8Array,
+    checksum: number,
+  ): Promise<void> {
+    const command = EspCommand.FLASH_DEFL_DATA;
+    const session = this.deflateSession;
+    if (!session) {
+      this.respondError(command, LoaderError.FAILED_TO_ACT);
+      return;
+    }
+    const view = new DataView(data.buffer, data.byteOffset, data.length);
+    const size = view.getUint32(0, true);
+    const sequence = view.getUint32(4, true);
+    if (!this.stubRunning && size > ROM_FLASH_WRITE_SIZE) {
+      this.respondError(command, LoaderError.INVALID_MESSAGE);
+      return;
+    }
+    const block = data.slice(16, 16 + size);
+    if (block.length !== size || xorChecksum(block) !== checksum) {
+      this.respondError(command, LoaderError.INVALID_CRC);
+      return;
+    }
+    session.received[sequence] = block;
+
+    // Inflate once the whole stream is in; the answer to the last block only
+    // comes after everything has been written, like on the real stub.
+    if (sequence === session.numBlocks - 1) {
+      const compressed = new Uint8Array(
+        session.received.reduce((total, b) => total + b.length, 0),
+      );
+      let position = 0;
+      for (const b of session.received) {
+        compressed.set(b, position);
+        position += b.length;
+      }
+      let inflated: Uint8Array;
+      try {
+        inflated = await inflate(compressed);
+      } catch {
+        this.respondError(command, LoaderError.DEFLATE_ERROR);
+        return;
+      }
+      const eraseEnd = Math.min(
+        this.flash.length,
+        Math.ceil((session.offset + inflated.length) / FLASH_SECTOR_SIZE) *
+          FLASH_SECTOR_SIZE,
+      );
+      this.flash.fill(0xff, session.offset, eraseEnd);
+      this.flash.set(
+        inflated.subarray(0, this.flash.length - session.offset),
+        session.offset,
+      );
+    }
+    this.respond(command);
+  }
+
+  private handleFlashMd5(address: number, size: number): void {
+    const command = EspCommand.SPI_FLASH_MD5;
+    if (address + size > this.flash.length) {
+      this.respondError(command, LoaderError.FAILED_TO_ACT);
+      return;
+    }
+    const region = this.flash.slice(address, address + size);
+    const digest = SparkMD5.ArrayBuffer.hash(region.buffer);
+    // The ROM answers with the digest as hex text, the stub as raw bytes.
+    const payload = this.stubRunning
+      ? hexToBytes(digest)
+      : new TextEncoder().encode(digest);
+    this.respond(command, 0, payload);
+  }
+
+  private handleReadFlash(
+    address: number,
+    size: number,
+    packetSize: number,
+    maxInFlight: number,
+  ): void {
+    const command = EspCommand.READ_FLASH;
+    if (!this.stubRunning || address + size > this.flash.length) {
+      this.respondError(command, LoaderError.INVALID_MESSAGE);
+      return;
+    }
+    this.respond(command);
+    this.readFlashSession = {
+      data: this.flash.slice(address, address + size),
+      packetSize,
+      maxInFlight,
+      sent: 0,
+      acked: 0,
+    };
+    this.sendReadFlashPackets();
+  }
+
+  private handleReadFlashAck(frame: Uint8Array): void {
+    const session = this.readFlashSession!;
+    session.acked = new DataView(frame.buffer, frame.byteOffset).getUint32(
+      0,
+      true,
+    );
+    if (session.acked >= session.data.length) {
+      this.readFlashSession = undefined;
+      const digest = SparkMD5.ArrayBuffer.hash(session.data.slice().buffer);
+      this.emit(slipEncode(hexToBytes(digest)));
+      return;
+    }
+    this.sendReadFlashPackets();
+  }
+
+  private sendReadFlashPackets(): void {
+    const session = this.readFlashSession!;
+    while (
+      session.sent < session.data.length &&
+      session.sent - session.acked < session.maxInFlight * session.packetSize
+    ) {
+      const packet = session.data.subarray(
+        session.sent,
+        session.sent + session.packetSize,
+      );
+      session.sent += packet.length;
+      this.emit(slipEncode(packet));
+    }
+  }
+
+  private statusLength(): number {
+    // The ESP32-family ROMs send four status bytes, the stub and ESP8266 two.
+    return this.stubRunning || this.chip === ChipFamily.ESP8266 ? 2 : 4;
+  }
+
+  private respond(
+    command: EspCommand,
+    value = 0,
+    payload: Uint8Array = new Uint8Array(0),
+  ): void {
+    this.sendResponse(command, value, payload, 0, 0);
+  }
+
+  private respondError(command: EspCommand, error: LoaderError): void {
+    this.sendResponse(command, 0, new Uint8Array(0), 1, error);
+  }
+
+  private sendResponse(
+    command: EspCommand,
+    value: number,
+    payload: Uint8Array,
+    status: number,
+    error: number,
+  ): void {
+    const dataLength = payload.length + this.statusLength();
+    const packet = new Uint8Array(8 + dataLength);
+    const view = new DataView(packet.buffer);
+    view.setUint8(0, EspPacketDirection.RESPONSE);
+    view.setUint8(1, command);
+    view.setUint16(2, dataLength, true);
+    view.setUint32(4, value, true);
+    packet.set(payload, 8);
+    packet[8 + payload.length] = status;
+    packet[9 + payload.length] = error;
+    this.emit(slipEncode(packet));
+  }
+}
+
+function xorChecksum(data: Uint8Array): number {
+  let checksum = 0xef;
+  for (const byte of data) {
+    checksum ^= byte;
+  }
+  return checksum;
+}
+
+function hexToBytes(hex: string): Uint8Array {
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
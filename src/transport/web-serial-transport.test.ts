@@ -0,0 +1,112 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { WebSerialTransport } from "./web-serial-transport";
+
+const createMockPort = (info: SerialPortInfo = {}) => ({
+  open: vi.fn().mockResolvedValue(undefined),
+  close: vi.fn().mockResolvedValue(undefined),
+  setSignals: vi.fn().mockResolvedValue(undefined),
+  getInfo: vi.fn().mockReturnValue(info),
+  readable: new ReadableStream<Uint8Array>(),
+  writable: new WritableStream<Uint8Array>(),
+});
+
+describe("WebSerialTransport", () => {
+  let serial: EventTarget & {
+    requestPort: ReturnType<typeof vi.fn>;
+    getPorts: ReturnType<typeof vi.fn>;
+  };
+
+  beforeEach(() => {
+    serial = Object.assign(new EventTarget(), {
+      requestPort: vi.fn(),
+      getPorts: vi.fn(),
+    });
+    vi.stubGlobal("navigator", { serial });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("should wrap the port selected by the user", async () => {
+    const port = createMockPort();
+    serial.requestPort.mockResolvedValue(port);
+
+    const transport = await WebSerialTransport.request();
+
+    expect(transport.port).toBe(port);
+    expect(transport.readable).toBe(port.readable);
+    expect(transport.writable).toBe(port.writable);
+  });
+
+  it("should forward open, close and setSignals to the port", async () => {
+    const port = createMockPort();
+    const transport = new WebSerialTransport(port as unknown as SerialPort);
+
+    await transport.open({ baudRate: 115200 });
+    await transport.setSignals({ dataTerminalReady: true });
+    await transport.close();
+
+    expect(port.open).toHaveBeenCalledWith({ baudRate: 115200 });
+    expect(port.setSignals).toHaveBeenCalledWith({ dataTerminalReady: true });
+    expect(port.close).toHaveBeenCalledOnce();
+  });
+
+  it("should dispatch disconnect only for its own port", async () => {
+    const port = createMockPort();
+    const transport = new WebSerialTransport(port as unknown as SerialPort);
+    const listener = vi.fn();
+    transport.addEventListener("disconnect", listener);
+    await transport.open({ baudRate: 115200 });
+
+    const otherEvent = new Event("disconnect");
+    Object.defineProperty(otherEvent, "target", { value: createMockPort() });
+    serial.dispatchEvent(otherEvent);
+    expect(listener).not.toHaveBeenCalled();
+
+    // Web Serial dispatches the event on navigator.serial with the port as target.
+    const ownEvent = new Event("disconnect");
+    Object.defineProperty(ownEvent, "target", { value: port });
+    serial.dispatchEvent(ownEvent);
+    expect(listener).toHaveBeenCalledOnce();
+  });
+
+  it("should reconnect to a port with the same VID/PID", async () => {
+    const info = { usbVendorId: 0x303a, usbProductId: 0x1001 };
+    const port = createMockPort(info);
+    const transport = new WebSerialTransport(port as unknown as SerialPort);
+    const recoveredPort = createMockPort(info);
+    serial.getPorts.mockResolvedValue([
+      createMockPort({ usbVendorId: 0x10c4, usbProductId: 0xea60 }),
+      recoveredPort,
+    ]);
+
+    await expect(transport.reconnect()).resolves.toBe(true);
+    expect(transport.port).toBe(recoveredPort);
+  });
+
+  it("should report failure when the device does not re-appear", async () => {
+    const port = createMockPort({ usbVendorId: 0x303a, usbProductId: 0x1001 });
+    const transport = new WebSerialTransport(port as unknown as SerialPort);
+    serial.getPorts.mockResolvedValue([]);
+
+    await expect(transport.reconnect()).resolves.toBe(false);
+    expect(transport.port).toBe(port);
+  });
+});
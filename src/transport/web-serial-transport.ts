@@ -0,0 +1,93 @@
+/**
+ * Copyright 2025 Google LLC
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ * https://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { SerialTransport, TRANSPORT_DISCONNECT_EVENT } from "./transport";
+
+/**
+ * SerialTransport backed by the browser's Web Serial API.
+ */
+export class WebSerialTransport extends EventTarget implements SerialTransport {
+  /** Info about the port (VID/PID) to identify it during re-enumeration. */
+  public readonly portInfo: SerialPortInfo;
+
+  constructor(public port: SerialPort) {
+    super();
+    this.portInfo = port.getInfo();
+  }
+
+  /**
+   * Prompts the user to select a serial port.
+   * @param options Optional filters passed to `navigator.serial.requestPort`.
+   * @returns A transport wrapping the selected port.
+   */
+  public static async request(
+    options?: SerialPortRequestOptions,
+  ): Promise<WebSerialTransport> {
+    return new WebSerialTransport(await navigator.serial.requestPort(options));
+  }
+
+  get readable(): ReadableStream<Uint8Array> | null {
+    return this.port.readable;
+  }
+
+  get writable(): WritableStream<Uint8Array> | null {
+    return this.port.writable;
+  }
+
+  public async open(options: SerialOptions): Promise<void> {
+    await this.port.open(options);
+    navigator.serial.addEventListener("disconnect", this.onSerialDisconnect);
+  }
+
+  public async close(): Promise<void> {
+    navigator.serial.removeEventListener("disconnect", this.onSerialDisconnect);
+    await this.port.close();
+  }
+
+  public async setSignals(signals: SerialOutputSignals): Promise<void> {
+    await this.port.setSignals(signals);
+  }
+
+  /**
+   * Looks for a previously granted port with the same VID/PID and switches
+   * to it. Native USB chips re-enumerate as a new port after a reset.
+   */
+  public async reconnect(): Promise<boolean> {
+    const ports = await navigator.serial.getPorts();
+    console.log(`Found ${ports.length} available ports.`);
+
+    const recoveredPort = ports.find((p) => {
+      const info = p.getInfo();
+      return (
+        info.usbVendorId === this.portInfo.usbVendorId &&
+        info.usbProductId === this.portInfo.usbProductId
+      );
+    });
+
+    if (!recoveredPort) {
+      console.log("Could not find the device among available ports.");
+      return false;
+    }
+    this.port = recoveredPort;
+    return true;
+  }
+
+  private onSerialDisconnect = (event: Event) => {
+    if (event.target === this.port) {
+      this.dispatchEvent(new Event(TRANSPORT_DISCONNECT_EVENT));
+    }
+  };
+}
@@ -15,7 +15,14 @@
  */
 
 import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
-import { sleep, slipEncode, SlipStreamBytes, toHex } from "./common";
+import {
+  deflate,
+  inflate,
+  sleep,
+  slipEncode,
+  SlipStreamBytes,
+  toHex,
+} from "./common";
 
 describe("sleep", () => {
   // Enable fake timers before each test in this suite
@@ -182,4 +189,26 @@ describe("slipEncode", () => {
     ]);
     expect(slipEncode(buffer)).toEqual(expected);
   });
+
+  it("should encode several buffers into a single frame", () => {
+    const header = new Uint8Array([0x01, SlipStreamBytes.END]);
+    const payload = new Uint8Array([SlipStreamBytes.ESC, 0x02]);
+    expect(slipEncode(header, payload)).toEqual(
+      slipEncode(new Uint8Array([...header, ...payload])),
+    );
+  });
+});
+
+describe("deflate and inflate", () => {
+  it("should produce a zlib stream", async () => {
+    const compressed = await deflate(new Uint8Array(1024));
+    // zlib header: deflate method with a 32K window.
+    expect(compressed[0]).toBe(0x78);
+    expect(compressed.length).toBeLessThan(1024);
+  });
+
+  it("should round-trip data", async () => {
+    const data = new Uint8Array(10000).map((_, i) => (i * 7) & 0xff);
+    expect(await inflate(await deflate(data))).toEqual(data);
+  });
 });
@@ -39,23 +39,45 @@ export enum SlipStreamBytes {
 }
 
 /**
- * Encode buffer using RFC 1055 (SLIP) standard
- * @param buffer
+ * Encode buffer using RFC 1055 (SLIP) standard. Several buffers are encoded
+ * back to back into a single frame, so a header and its payload do not need
+ * to be joined first. The output is sized up front and written in place.
+ * @param buffers Data to encode into one frame.
  * @returns Uint8Array buffer encoded.
  */
-export function slipEncode(buffer: Uint8Array): Uint8Array {
-  const encoded = [SlipStreamBytes.END];
-  for (const byte of buffer) {
-    if (byte === SlipStreamBytes.END) {
-      encoded.push(SlipStreamBytes.ESC, SlipStreamBytes.ESC_END);
-    } else if (byte === SlipStreamBytes.ESC) {
-      encoded.push(SlipStreamBytes.ESC, SlipStreamBytes.ESC_ESC);
-    } else {
-      encoded.push(byte);
+export function slipEncode(...buffers: Uint8Array[]): Uint8Array {
+  let length = 2;
+  for (const buffer of buffers) {
+    length += buffer.length;
+    for (let i = 0; i < buffer.length; i++) {
+      if (
+        buffer[i] === SlipStreamBytes.END ||
+        buffer[i] === SlipStreamBytes.ESC
+      ) {
+        length++;
+      }
     }
   }
-  encoded.push(SlipStreamBytes.END);
-  return new Uint8Array(encoded);
+
+  const encoded = new Uint8Array(length);
+  let position = 0;
+  encoded[position++] = SlipStreamBytes.END;
+  for (const buffer of buffers) {
+    for (let i = 0; i < buffer.length; i++) {
+      const byte = buffer[i];
+      if (byte === SlipStreamBytes.END) {
+        encoded[position++] = SlipStreamBytes.ESC;
+        encoded[position++] = SlipStreamBytes.ESC_END;
+      } else if (byte === SlipStreamBytes.ESC) {
+        encoded[position++] = SlipStreamBytes.ESC;
+        encoded[position++] = SlipStreamBytes.ESC_ESC;
+      } else {
+        encoded[position++] = byte;
+      }
+    }
+  }
+  encoded[position] = SlipStreamBytes.END;
+  return encoded;
 }
 
 /**
@@ -72,3 +94,30 @@ export function base64ToUint8Array(base64: string): Uint8Array {
   }
   return bytes;
 }
+
+/**
+ * Compresses data into a zlib (RFC 1950) stream, the format the ESP loaders
+ * expect for FLASH_DEFL_DATA.
+ * @param data The data to compress.
+ * @returns The compressed data.
+ */
+export async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  return transformBytes(data, new CompressionStream("deflate"));
+}
+
+/**
+ * Decompresses a zlib (RFC 1950) stream.
+ * @param data The compressed data.
+ * @returns The decompressed data.
+ */
+export async function inflate(data: Uint8Array): Promise<Uint8Array> {
+  return transformBytes(data, new DecompressionStream("deflate"));
+}
+
+async function transformBytes(
+  data: Uint8Array,
+  transform: CompressionStream | DecompressionStream,
+): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(transform);
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
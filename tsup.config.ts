@@ -2,8 +2,9 @@ import { defineConfig } from "tsup";
 
 // This file configures tsup for bundling the TypeScript library.
 export default defineConfig({
-  // Main entry point(s) for the library.
-  entry: ["src/index.ts"],
+  // Main entry point(s) for the library. The Node.js transport has its own
+  // entry so the main bundle stays free of the `serialport` import.
+  entry: ["src/index.ts", "src/node.ts"],
   // Output formats: CommonJS and ESModule.
   format: ["cjs", "esm"],
   // Generate TypeScript declaration files (.d.ts).